@@ -0,0 +1,174 @@
+/**
+ * BlackRoad RPG — Achievements
+ * Declarative milestones tracked from the GameEvent stream: event counters
+ * with zone/type/difficulty filters, counters of distinct zones, types or
+ * difficulties, level thresholds and hidden unlocks.
+ */
+import type { GameEvent } from "./game.js";
+import type { ContentRegistry, EncounterType } from "./content.js";
+import type { Encounter } from "./levels/index.js";
+import { ZONES } from "./levels/index.js";
+
+export interface AchievementFilter {
+  zone?: string;
+  type?: EncounterType;
+  difficulty?: Encounter["difficulty"];
+}
+
+export type AchievementTrigger =
+  /**
+   * Unlocks once `threshold` matching events have been seen, or with
+   * `distinct`, events about that many different zones, types or difficulties.
+   */
+  | { kind: "count"; event: GameEvent["type"]; threshold: number; where?: AchievementFilter; distinct?: keyof AchievementFilter }
+  /** Unlocks when the player or any agent reaches `threshold`. */
+  | { kind: "reach"; stat: "player_level" | "agent_level"; threshold: number };
+
+export interface AchievementDef {
+  id: string;
+  name: string;
+  description: string;
+  points: number;
+  hidden?: boolean;  // not listed until unlocked
+  trigger: AchievementTrigger;
+}
+
+export interface AchievementProgress {
+  unlocked: Record<string, string>;  // achievement id → ISO unlock time
+  counters: Record<string, number>;  // achievement id → matching events seen
+  seen: Record<string, string[]>;    // achievement id → values counted by a `distinct` trigger
+}
+
+export interface AchievementStatus {
+  achievement: AchievementDef;
+  unlocked: boolean;
+  progress: number;
+  threshold: number;
+}
+
+export const ACHIEVEMENTS: AchievementDef[] = [
+  { id: "first-capture",   name: "First Contact",      description: "Capture your first agent.",                       points: 10,  trigger: { kind: "count", event: "capture", threshold: 1 } },
+  { id: "collector",       name: "Collector",          description: "Capture 10 agents.",                              points: 25,  trigger: { kind: "count", event: "capture", threshold: 10 } },
+  { id: "logician",        name: "Logician",           description: "Capture 3 logic agents.",                         points: 15,  trigger: { kind: "count", event: "capture", threshold: 3, where: { type: "logic" } } },
+  { id: "legend-tamer",    name: "Legend Tamer",       description: "Capture a legendary agent in the wild.",          points: 50,  trigger: { kind: "count", event: "capture", threshold: 1, where: { difficulty: "legendary" } } },
+  { id: "first-win",       name: "Compiled",           description: "Win your first battle.",                          points: 10,  trigger: { kind: "count", event: "battle_win", threshold: 1 } },
+  { id: "forge-veteran",   name: "Forge Veteran",      description: "Win 25 battles in the Compute Forge.",            points: 25,  trigger: { kind: "count", event: "battle_win", threshold: 25, where: { zone: "compute-forge" } } },
+  { id: "explorer",        name: "Explorer",           description: "Enter 6 different zones.",                        points: 15,  trigger: { kind: "count", event: "zone_enter", threshold: 6, distinct: "zone" } },
+  { id: "guardian-slayer", name: "Guardian Slayer",    description: "Defeat 3 zone guardians.",                        points: 40,  trigger: { kind: "count", event: "guardian_defeated", threshold: 3 } },
+  { id: "vault-breaker",   name: "Trust Nothing",      description: "Defeat the guardian of the Vault Terminus.",      points: 100, hidden: true, trigger: { kind: "count", event: "guardian_defeated", threshold: 1, where: { zone: "vault-terminus" } } },
+  { id: "evolver",         name: "Next Form",          description: "Evolve an agent.",                                points: 20,  trigger: { kind: "count", event: "agent_evolved", threshold: 1 } },
+  { id: "level-10",        name: "Warmed Up",          description: "Reach player level 10.",                          points: 15,  trigger: { kind: "reach", stat: "player_level", threshold: 10 } },
+  { id: "level-30",        name: "Senior Operator",    description: "Reach player level 30.",                          points: 40,  trigger: { kind: "reach", stat: "player_level", threshold: 30 } },
+  { id: "agent-50",        name: "Fully Trained",      description: "Raise an agent to level 50.",                     points: 60,  hidden: true, trigger: { kind: "reach", stat: "agent_level", threshold: 50 } },
+  { id: "runaway",         name: "Strategic Retreat",  description: "Flee from 5 battles.",                            points: 5,   hidden: true, trigger: { kind: "count", event: "battle_flee", threshold: 5 } },
+];
+
+export function emptyAchievements(): AchievementProgress {
+  return { unlocked: {}, counters: {}, seen: {} };
+}
+
+/** The zone, type and difficulty an event is about, where it has them. */
+function subjectOf(event: GameEvent, content: ContentRegistry): AchievementFilter {
+  switch (event.type) {
+    case "encounter":
+    case "battle_start":
+    case "battle_win":
+    case "battle_lose":
+    case "battle_flee":
+    case "proximity_enter":
+    case "proximity_exit": {
+      const { encounter } = event;
+      return { zone: content.zoneOfEncounter(encounter.id)?.id, type: encounter.type, difficulty: encounter.difficulty };
+    }
+    case "capture": {
+      const encounter = content.findEncounter(event.agent.species);
+      return { zone: content.zoneOfEncounter(event.agent.species)?.id, type: event.agent.type, difficulty: encounter?.difficulty };
+    }
+    case "zone_enter":
+    case "zone_exit":
+    case "zone_complete":
+    case "guardian_defeated":
+    case "guardian_phase":
+      return { zone: event.zone.id };
+    default:
+      return {};
+  }
+}
+
+function matches(where: AchievementFilter | undefined, subject: AchievementFilter): boolean {
+  if (!where) return true;
+  return (Object.keys(where) as (keyof AchievementFilter)[]).every(key => where[key] === subject[key]);
+}
+
+function reached(trigger: Extract<AchievementTrigger, { kind: "reach" }>, event: GameEvent): number | undefined {
+  if (trigger.stat === "player_level" && event.type === "level_up") return event.new_level;
+  if (trigger.stat === "agent_level" && event.type === "agent_level_up") return event.new_level;
+  return undefined;
+}
+
+/**
+ * Advances counters for one event and returns the achievements it unlocks,
+ * marking them unlocked in `progress`. Already-unlocked ones are skipped.
+ */
+export function trackAchievements(
+  progress: AchievementProgress,
+  event: GameEvent,
+  content: ContentRegistry,
+  defs: AchievementDef[] = ACHIEVEMENTS,
+): AchievementDef[] {
+  const unlocked: AchievementDef[] = [];
+  let subject: AchievementFilter | undefined;
+  for (const def of defs) {
+    if (progress.unlocked[def.id]) continue;
+    const { trigger } = def;
+    let done = false;
+    if (trigger.kind === "count") {
+      if (trigger.event !== event.type) continue;
+      subject ??= subjectOf(event, content);
+      if (!matches(trigger.where, subject)) continue;
+      let count = (progress.counters[def.id] ?? 0) + 1;
+      if (trigger.distinct) {
+        const value = subject[trigger.distinct];
+        const seen = progress.seen[def.id] ??= [];
+        if (value === undefined || seen.includes(value)) continue;
+        seen.push(value);
+        count = seen.length;
+      }
+      progress.counters[def.id] = count;
+      done = count >= trigger.threshold;
+    } else {
+      done = (reached(trigger, event) ?? 0) >= trigger.threshold;
+    }
+    if (done) {
+      progress.unlocked[def.id] = new Date().toISOString();
+      unlocked.push(def);
+    }
+  }
+  return unlocked;
+}
+
+/** Achievements to show the player; hidden ones appear only once unlocked. */
+export function listAchievements(progress: AchievementProgress, defs: AchievementDef[] = ACHIEVEMENTS): AchievementStatus[] {
+  return defs
+    .map(achievement => {
+      const unlocked = !!progress.unlocked[achievement.id];
+      const { threshold } = achievement.trigger;
+      const count = achievement.trigger.kind === "count" ? progress.counters[achievement.id] ?? 0 : 0;
+      return { achievement, unlocked, progress: unlocked ? threshold : Math.min(count, threshold), threshold };
+    })
+    .filter(s => s.unlocked || !s.achievement.hidden);
+}
+
+export function achievementPoints(progress: AchievementProgress, defs: AchievementDef[] = ACHIEVEMENTS): number {
+  return defs.filter(d => progress.unlocked[d.id]).reduce((sum, d) => sum + d.points, 0);
+}
+
+// Fail at load time on duplicate ids or filters naming a missing zone.
+const seen = new Set<string>();
+for (const def of ACHIEVEMENTS) {
+  if (seen.has(def.id)) throw new Error(`Duplicate achievement id "${def.id}"`);
+  seen.add(def.id);
+  if (def.trigger.threshold < 1) throw new Error(`Achievement "${def.id}" needs a positive threshold`);
+  const zone = def.trigger.kind === "count" ? def.trigger.where?.zone : undefined;
+  if (zone && !ZONES.some(z => z.id === zone)) throw new Error(`Unknown zone "${zone}" in achievement "${def.id}"`);
+}
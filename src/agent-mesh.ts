@@ -1,10 +1,13 @@
 /**
  * BlackRoad Agent Mesh — Three.js Real-Time Visualization
- * Shows 6 core agents as glowing spheres with animated communication lines.
+ * Shows 6 core agents as glowing spheres with animated communication lines,
+ * lit by status and flashed by messages from a TelemetryFeed.
  */
 
 import * as THREE from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import type { AgentStatus, TelemetryEvent } from "./telemetry/events.js";
+import type { TelemetryFeed } from "./telemetry/feed.js";
 
 // ── Agent data ────────────────────────────────────────────────────────────────
 
@@ -22,6 +25,8 @@ const CONNECTIONS: [number, number][] = [
   [1, 2], [1, 5], [2, 5], [3, 4],   // Working relationships
 ];
 
+const STATUS_GLOW: Record<AgentStatus, number> = { idle: 0.15, active: 0.4, busy: 0.8 };
+
 // ── Scene setup ───────────────────────────────────────────────────────────────
 
 export class AgentMesh {
@@ -32,6 +37,7 @@ export class AgentMesh {
   private agentMeshes: THREE.Mesh[] = [];
   private communicationLines: THREE.Line[] = [];
   private pulseOffset = 0;
+  private flashTimers = new Map<THREE.Line, ReturnType<typeof setTimeout>>();
 
   constructor(container: HTMLElement) {
     // Renderer
@@ -92,7 +98,7 @@ export class AgentMesh {
       });
       const mesh = new THREE.Mesh(geo, mat);
       mesh.position.set(...agent.pos);
-      mesh.userData = { agentId: agent.id, baseY: agent.pos[1] };
+      mesh.userData = { agentId: agent.id, baseY: agent.pos[1], size: 1 };
 
       // Point light per agent
       const light = new THREE.PointLight(agent.color, 1.5, 3);
@@ -123,10 +129,31 @@ export class AgentMesh {
     });
   }
 
-  /** Simulate a message flash between two agents */
+  /** Light agents by status, size them by tasks done and flash lines as messages pass; returns an unsubscribe. */
+  attach(feed: TelemetryFeed): () => void {
+    return feed.on((events) => this.applyTelemetry(events));
+  }
+
+  applyTelemetry(events: TelemetryEvent[]): void {
+    for (const event of events) {
+      if (event.type === "message") {
+        this.flash(event.from, event.to);
+        continue;
+      }
+      const mesh = this.agentMeshes.find((m) => m.userData.agentId === event.agent.toUpperCase());
+      if (!mesh) continue;
+      if (event.type === "status") {
+        (mesh.material as THREE.MeshStandardMaterial).emissiveIntensity = STATUS_GLOW[event.status];
+      } else {
+        mesh.userData.size = 1 + Math.min(event.count / 1000, 0.5);
+      }
+    }
+  }
+
+  /** Flash the line between two agents (ids in any case), if they are connected */
   flash(fromId: string, toId: string): void {
-    const fromIdx = AGENTS.findIndex((a) => a.id === fromId);
-    const toIdx = AGENTS.findIndex((a) => a.id === toId);
+    const fromIdx = AGENTS.findIndex((a) => a.id === fromId.toUpperCase());
+    const toIdx = AGENTS.findIndex((a) => a.id === toId.toUpperCase());
     const connIdx = CONNECTIONS.findIndex(
       ([a, b]) => (a === fromIdx && b === toIdx) || (a === toIdx && b === fromIdx)
     );
@@ -136,10 +163,13 @@ export class AgentMesh {
     const mat = line.material as THREE.LineBasicMaterial;
     mat.color.set(AGENTS[fromIdx].color);
     mat.opacity = 1;
-    setTimeout(() => {
+    // A newer flash restarts the fade rather than being cut short by an older one.
+    clearTimeout(this.flashTimers.get(line));
+    this.flashTimers.set(line, setTimeout(() => {
+      this.flashTimers.delete(line);
       mat.color.set(0x444444);
       mat.opacity = 0.4;
-    }, 500);
+    }, 500));
   }
 
   private _animate() {
@@ -148,7 +178,7 @@ export class AgentMesh {
 
     // Pulse each agent sphere
     this.agentMeshes.forEach((mesh, i) => {
-      const scale = 1 + 0.05 * Math.sin(this.pulseOffset + i * 1.2);
+      const scale = mesh.userData.size * (1 + 0.05 * Math.sin(this.pulseOffset + i * 1.2));
       mesh.scale.setScalar(scale);
       mesh.position.y = mesh.userData.baseY + 0.05 * Math.sin(this.pulseOffset * 0.7 + i);
     });
@@ -158,6 +188,8 @@ export class AgentMesh {
   }
 
   dispose() {
+    this.flashTimers.forEach((timer) => clearTimeout(timer));
+    this.flashTimers.clear();
     this.renderer.dispose();
   }
 }
@@ -0,0 +1,329 @@
+/**
+ * BlackRoad RPG — Turn-Based Battles
+ * Party agents trade moves with a wild encounter until one side faints,
+ * the player flees, or the encounter is captured.
+ */
+import type { Encounter } from "./levels/index.js";
+import type { CapturedAgent } from "./game.js";
+import { getMove, effectiveness } from "./moves.js";
+import type { MoveDef, StatusEffect, StatusKind } from "./moves.js";
+import { defaultRng } from "./rng.js";
+import type { Rng } from "./rng.js";
+
+export type BattleAction =
+  | { kind: "move"; move: string }
+  | { kind: "switch"; index: number }
+  | { kind: "rest" }
+  | { kind: "capture" }
+  | { kind: "flee" };
+
+export type BattleOutcome = "ongoing" | "win" | "lose" | "fled" | "captured";
+
+export type BattleSide = "party" | "enemy";
+
+export type BattleLogEntry =
+  | { kind: "move"; actor: BattleSide; name: string; move: string; damage: number; effectiveness: number }
+  | { kind: "miss"; actor: BattleSide; name: string; move: string }
+  | { kind: "status"; actor: BattleSide; name: string; status: StatusKind; turns: number }
+  | { kind: "stunned"; actor: BattleSide; name: string }
+  | { kind: "burn"; actor: BattleSide; name: string; damage: number }
+  | { kind: "rest"; actor: BattleSide; name: string }
+  | { kind: "phase"; name: string; phase: number; text: string }
+  | { kind: "faint"; actor: BattleSide; name: string }
+  | { kind: "switch"; name: string }
+  | { kind: "capture"; success: boolean; chance: number }
+  | { kind: "flee"; success: boolean };
+
+/** Scripted boss phase, entered once enemy HP falls below `hpBelow` of max. */
+export interface BossPhase {
+  hpBelow: number;
+  text: string;
+  moves?: string[];         // replaces the enemy's move pool
+  self?: StatusEffect[];    // statuses the boss gains on entering the phase
+}
+
+export interface BossScript {
+  hpScale: number;
+  phases: BossPhase[];
+}
+
+export interface BattleOptions {
+  playerLevel: number;
+  rng?: Rng;
+  captureBonus?: number;  // added to capture chance
+  damageScale?: number;   // multiplies party damage
+  /** Boss battles cannot be fled or captured and follow scripted phases. */
+  boss?: BossScript;
+}
+
+export const MAX_ENERGY = 6;
+const ENERGY_REGEN = 1;
+const REST_ENERGY = 2;
+
+export function maxHpForLevel(level: number): number {
+  return level * 15;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+interface SideState {
+  energy: number;
+  statuses: Map<StatusKind, number>;  // status → turns remaining
+}
+
+export class Battle {
+  readonly enemy: Encounter;
+  readonly enemyMaxHp: number;
+  private enemyHp: number;
+  private active = -1;
+  private participants = new Set<CapturedAgent>();
+  private outcome: BattleOutcome = "ongoing";
+  private turn = 0;
+  private rng: Rng;
+  private enemyMoves: string[];
+  private phase = 0;
+  private sides: Record<BattleSide, SideState> = {
+    party: { energy: MAX_ENERGY, statuses: new Map() },
+    enemy: { energy: MAX_ENERGY, statuses: new Map() },
+  };
+
+  constructor(
+    encounter: Encounter,
+    private party: CapturedAgent[],
+    private options: BattleOptions,
+  ) {
+    this.enemy = encounter;
+    this.rng = options.rng ?? defaultRng;
+    this.enemyMoves = encounter.moves;
+    this.enemyMaxHp = Math.round(maxHpForLevel(encounter.level) * (options.boss?.hpScale ?? 1));
+    this.enemyHp = this.enemyMaxHp;
+    this.setActive(party.findIndex(a => a.hp > 0));
+    if (this.active === -1) throw new Error("No conscious agent in the party");
+  }
+
+  private setActive(index: number) {
+    this.active = index;
+    if (this.party[index]) this.participants.add(this.party[index]);
+  }
+
+  getOutcome(): BattleOutcome { return this.outcome; }
+  getTurn(): number { return this.turn; }
+  getEnemyHp(): number { return this.enemyHp; }
+  getActiveAgent(): CapturedAgent | undefined { return this.party[this.active]; }
+  /** Party agents that were sent out at any point in this battle. */
+  getParticipants(): CapturedAgent[] { return [...this.participants]; }
+  isBoss(): boolean { return !!this.options.boss; }
+  /** 0 before any scripted phase, then 1-based index of the current phase. */
+  getPhase(): number { return this.phase; }
+  getEnergy(side: BattleSide): number { return this.sides[side].energy; }
+  getStatuses(side: BattleSide): ReadonlyMap<StatusKind, number> { return this.sides[side].statuses; }
+
+  /** Capture odds rise as the enemy's remaining HP falls. */
+  captureChance(): number {
+    if (this.isBoss()) return 0;
+    const base = 0.5 + (this.options.playerLevel - this.enemy.level) * 0.1;
+    const worn = 1 - this.enemyHp / this.enemyMaxHp;
+    return clamp(base + worn * 0.5 + (this.options.captureBonus ?? 0), 0.1, 0.95);
+  }
+
+  fleeChance(): number {
+    if (this.isBoss()) return 0;
+    const level = this.getActiveAgent()?.level ?? this.options.playerLevel;
+    return clamp(0.5 + (level - this.enemy.level) * 0.1, 0.1, 0.95);
+  }
+
+  /** The faster side acts first; ties go to the party. */
+  private partyActsFirst(): boolean {
+    const agent = this.getActiveAgent();
+    return !!agent && agent.level >= this.enemy.level;
+  }
+
+  act(action: BattleAction): BattleLogEntry[] {
+    if (this.outcome !== "ongoing") throw new Error("Battle is already over");
+    this.turn++;
+    const log: BattleLogEntry[] = [];
+
+    switch (action.kind) {
+      case "switch": {
+        const target = this.party[action.index];
+        if (!target || target.hp <= 0) throw new Error(`Cannot switch to party slot ${action.index}`);
+        this.setActive(action.index);
+        this.sides.party.statuses.clear();
+        log.push({ kind: "switch", name: target.name });
+        this.enemyTurn(log);
+        break;
+      }
+      case "rest": {
+        const agent = this.getActiveAgent();
+        if (!agent) throw new Error("No conscious agent in the party");
+        this.sides.party.energy = Math.min(MAX_ENERGY, this.sides.party.energy + REST_ENERGY);
+        log.push({ kind: "rest", actor: "party", name: agent.name });
+        this.enemyTurn(log);
+        break;
+      }
+      case "flee": {
+        if (this.isBoss()) throw new Error(`Cannot flee from ${this.enemy.agentName}`);
+        const success = this.rng.next() < this.fleeChance();
+        log.push({ kind: "flee", success });
+        if (success) this.outcome = "fled";
+        else this.enemyTurn(log);
+        break;
+      }
+      case "capture": {
+        if (this.isBoss()) throw new Error(`${this.enemy.agentName} cannot be captured`);
+        const chance = this.captureChance();
+        const success = this.rng.next() < chance;
+        log.push({ kind: "capture", success, chance });
+        if (success) this.outcome = "captured";
+        else this.enemyTurn(log);
+        break;
+      }
+      case "move": {
+        const agent = this.getActiveAgent();
+        if (!agent) throw new Error("No conscious agent in the party");
+        if (!agent.moves.includes(action.move)) throw new Error(`${agent.name} does not know ${action.move}`);
+        const move = getMove(action.move);
+        if (!move) throw new Error(`Unknown move "${action.move}"`);
+        if (move.cost > this.sides.party.energy) throw new Error(`Not enough energy for ${move.name}`);
+        if (this.partyActsFirst()) {
+          this.partyTurn(agent, move, log);
+          if (this.outcome === "ongoing") this.enemyTurn(log);
+        } else {
+          this.enemyTurn(log);
+          if (this.outcome === "ongoing" && this.getActiveAgent() === agent) this.partyTurn(agent, move, log);
+        }
+        break;
+      }
+    }
+    if (this.outcome === "ongoing") this.endTurn(log);
+    return log;
+  }
+
+  private nameOf(side: BattleSide): string {
+    return side === "enemy" ? this.enemy.agentName : this.getActiveAgent()?.name ?? "";
+  }
+
+  /** Consumes a turn of stun; returns true when the side loses its action. */
+  private stunned(side: BattleSide, log: BattleLogEntry[]): boolean {
+    const { statuses } = this.sides[side];
+    const turns = statuses.get("stun");
+    if (!turns) return false;
+    if (turns <= 1) statuses.delete("stun");
+    else statuses.set("stun", turns - 1);
+    log.push({ kind: "stunned", actor: side, name: this.nameOf(side) });
+    return true;
+  }
+
+  private partyTurn(agent: CapturedAgent, move: MoveDef, log: BattleLogEntry[]) {
+    if (this.stunned("party", log)) return;
+    this.useMove("party", agent.level, this.enemy.level, this.enemy.type, move, log);
+  }
+
+  private enemyTurn(log: BattleLogEntry[]) {
+    const target = this.getActiveAgent();
+    if (!target || this.stunned("enemy", log)) return;
+    const affordable = this.enemyMoves
+      .map(getMove)
+      .filter((m): m is MoveDef => !!m && m.cost <= this.sides.enemy.energy);
+    if (!affordable.length) {
+      log.push({ kind: "rest", actor: "enemy", name: this.enemy.agentName });
+      return;
+    }
+    const move = this.rng.pick(affordable);
+    this.useMove("enemy", this.enemy.level, target.level, target.type, move, log);
+  }
+
+  private useMove(
+    side: BattleSide, attackerLevel: number, defenderLevel: number,
+    defenderType: Encounter["type"], move: MoveDef, log: BattleLogEntry[],
+  ) {
+    const self = this.sides[side];
+    const foeSide: BattleSide = side === "party" ? "enemy" : "party";
+    const foe = this.sides[foeSide];
+    const name = this.nameOf(side);
+    self.energy -= move.cost;
+
+    if (this.rng.next() >= move.accuracy) {
+      log.push({ kind: "miss", actor: side, name, move: move.name });
+      return;
+    }
+
+    const eff = effectiveness(move.element, defenderType);
+    let damage = 0;
+    if (move.power > 0) {
+      let scale = eff * (2 + attackerLevel) / (2 + defenderLevel);
+      if (side === "party") scale *= this.options.damageScale ?? 1;
+      if (self.statuses.has("focus")) scale *= 1.5;
+      if (self.statuses.has("weaken")) scale *= 0.5;
+      if (foe.statuses.has("shield")) scale *= 0.5;
+      damage = Math.max(1, Math.round(move.power / 4 * scale));
+    }
+    log.push({ kind: "move", actor: side, name, move: move.name, damage, effectiveness: eff });
+    if (damage > 0 && this.applyDamage(foeSide, damage, log)) return;
+
+    for (const effect of move.effects) {
+      if (this.rng.next() >= effect.chance) continue;
+      const target = effect.target === "self" ? side : foeSide;
+      this.sides[target].statuses.set(effect.status, effect.turns);
+      log.push({ kind: "status", actor: target, name: this.nameOf(target), status: effect.status, turns: effect.turns });
+    }
+  }
+
+  /** Returns true if the damaged side fainted. */
+  private applyDamage(side: BattleSide, damage: number, log: BattleLogEntry[]): boolean {
+    if (side === "enemy") {
+      this.enemyHp = Math.max(0, this.enemyHp - damage);
+      if (this.enemyHp > 0) {
+        this.advancePhase(log);
+        return false;
+      }
+      log.push({ kind: "faint", actor: "enemy", name: this.enemy.agentName });
+      this.outcome = "win";
+      return true;
+    }
+    const target = this.getActiveAgent();
+    if (!target) return false;
+    target.hp = Math.max(0, target.hp - damage);
+    if (target.hp > 0) return false;
+    log.push({ kind: "faint", actor: "party", name: target.name });
+    this.sides.party.statuses.clear();
+    this.setActive(this.party.findIndex(a => a.hp > 0));
+    if (this.active === -1) this.outcome = "lose";
+    return true;
+  }
+
+  /** Enters every scripted phase whose HP threshold has been crossed. */
+  private advancePhase(log: BattleLogEntry[]) {
+    const phases = this.options.boss?.phases ?? [];
+    while (this.phase < phases.length && this.enemyHp / this.enemyMaxHp < phases[this.phase].hpBelow) {
+      const phase = phases[this.phase++];
+      log.push({ kind: "phase", name: this.enemy.agentName, phase: this.phase, text: phase.text });
+      if (phase.moves) this.enemyMoves = phase.moves;
+      for (const effect of phase.self ?? []) {
+        this.sides.enemy.statuses.set(effect.status, effect.turns);
+        log.push({ kind: "status", actor: "enemy", name: this.enemy.agentName, status: effect.status, turns: effect.turns });
+      }
+    }
+  }
+
+  private endTurn(log: BattleLogEntry[]) {
+    for (const side of ["party", "enemy"] as BattleSide[]) {
+      const state = this.sides[side];
+      if (state.statuses.has("burn") && this.outcome === "ongoing") {
+        const maxHp = side === "enemy" ? this.enemyMaxHp : this.getActiveAgent()?.max_hp ?? 0;
+        const damage = Math.max(1, Math.round(maxHp / 16));
+        log.push({ kind: "burn", actor: side, name: this.nameOf(side), damage });
+        this.applyDamage(side, damage, log);
+      }
+      for (const [status, turns] of state.statuses) {
+        // Stuns last for actions lost, not turns, so they count down in stunned().
+        if (status === "stun") continue;
+        if (turns <= 1) state.statuses.delete(status);
+        else state.statuses.set(status, turns - 1);
+      }
+      state.energy = Math.min(MAX_ENERGY, state.energy + ENERGY_REGEN);
+    }
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * BlackRoad Interactive — Simulation Clock
+ * Fixed-timestep clock with an accumulator: simulation steps always advance
+ * by the same dt regardless of frame rate, and renderers interpolate
+ * between the last two steps using `alpha`. Runs headless in Node too.
+ */
+
+export interface ClockOptions {
+  /** Seconds per simulation step. */
+  step?: number;
+  /** Most steps run for one frame, so a long stall can't spiral. */
+  maxStepsPerFrame?: number;
+  timeScale?: number;
+}
+
+type StepListener = (dt: number, tick: number) => void;
+type FrameListener = (alpha: number) => void;
+
+export class SimClock {
+  readonly step: number;
+  private maxStepsPerFrame: number;
+  private timeScale: number;
+  private accumulator = 0;
+  private tick = 0;
+  private paused = false;
+  private stepListeners: StepListener[] = [];
+  private frameListeners: FrameListener[] = [];
+  private handle: { cancel(): void } | null = null;
+
+  constructor(options: ClockOptions = {}) {
+    this.step = options.step ?? 1 / 60;
+    this.maxStepsPerFrame = options.maxStepsPerFrame ?? 5;
+    this.timeScale = options.timeScale ?? 1;
+    if (!(this.step > 0)) throw new Error(`Clock step must be positive, got ${this.step}`);
+  }
+
+  /** Called once per fixed step with the step length in seconds. */
+  onStep(listener: StepListener): () => void {
+    this.stepListeners.push(listener);
+    return () => { this.stepListeners = this.stepListeners.filter(l => l !== listener); };
+  }
+
+  /** Called once per advance, after its steps, with the interpolation factor. */
+  onFrame(listener: FrameListener): () => void {
+    this.frameListeners.push(listener);
+    return () => { this.frameListeners = this.frameListeners.filter(l => l !== listener); };
+  }
+
+  getTick(): number { return this.tick; }
+  /** Simulated seconds elapsed. */
+  getTime(): number { return this.tick * this.step; }
+  /** How far between the last step and the next one the present frame is, in [0, 1). */
+  get alpha(): number { return this.accumulator / this.step; }
+
+  isPaused(): boolean { return this.paused; }
+  pause(): void { this.paused = true; }
+  resume(): void { this.paused = false; }
+
+  getTimeScale(): number { return this.timeScale; }
+  setTimeScale(scale: number): void {
+    if (!(scale >= 0)) throw new Error(`Time scale must be non-negative, got ${scale}`);
+    this.timeScale = scale;
+  }
+
+  /**
+   * Feed `realDelta` seconds of wall time; runs as many fixed steps as have
+   * accumulated (scaled, capped) and returns how many ran.
+   */
+  advance(realDelta: number): number {
+    let steps = 0;
+    if (!this.paused) {
+      this.accumulator += Math.max(0, realDelta) * this.timeScale;
+      while (this.accumulator >= this.step && steps < this.maxStepsPerFrame) {
+        this.runStep();
+        this.accumulator -= this.step;
+        steps++;
+      }
+      // Drop time we couldn't catch up on rather than replaying it later.
+      if (this.accumulator >= this.step) this.accumulator %= this.step;
+    }
+    const alpha = this.alpha;
+    this.frameListeners.forEach(l => l(alpha));
+    return steps;
+  }
+
+  /** Run exactly `count` steps, ignoring pause and time scale; for tests and headless runs. */
+  runSteps(count: number): void {
+    for (let i = 0; i < count; i++) this.runStep();
+  }
+
+  private runStep() {
+    this.tick++;
+    this.stepListeners.forEach(l => l(this.step, this.tick));
+  }
+
+  /**
+   * Drive the clock from real time: requestAnimationFrame in browsers,
+   * a timer at the step rate elsewhere.
+   */
+  start(): void {
+    if (this.handle) return;
+    const now = () => (typeof performance !== "undefined" ? performance.now() : Date.now());
+    let last = now();
+    const frame = () => {
+      const t = now();
+      this.advance((t - last) / 1000);
+      last = t;
+    };
+    if (typeof requestAnimationFrame === "function") {
+      let id = 0;
+      const loop = () => { frame(); id = requestAnimationFrame(loop); };
+      id = requestAnimationFrame(loop);
+      this.handle = { cancel: () => cancelAnimationFrame(id) };
+    } else {
+      const id = setInterval(frame, this.step * 1000);
+      this.handle = { cancel: () => clearInterval(id) };
+    }
+  }
+
+  stop(): void {
+    this.handle?.cancel();
+    this.handle = null;
+  }
+
+  isRunning(): boolean { return this.handle !== null; }
+}
@@ -0,0 +1,199 @@
+/**
+ * BlackRoad Interactive — Collisions
+ * Sphere and box (axis-aligned) colliders. Each step files every body in a
+ * spatial grid on the ground plane, tests only bodies sharing cells, pushes
+ * overlapping solid bodies apart, bounces their velocities, and reports
+ * which pairs started or stopped touching.
+ */
+import { SpatialGrid } from "./spatial.js";
+
+export interface Vec3 { x: number; y: number; z: number }
+
+export type Shape =
+  | { kind: "sphere"; radius: number }
+  | { kind: "box"; half: Vec3 };
+
+export interface Collider {
+  shape: Shape;
+  /** Never moved by a collision, e.g. scenery. */
+  fixed?: boolean;
+  /** Reports contacts but is never pushed, nor pushes anything. */
+  trigger?: boolean;
+  /** 0 stops dead along the contact, 1 bounces back at full speed. */
+  restitution?: number;
+}
+
+export interface Body {
+  id: string;
+  /** Collider centre; moved in place when the body is pushed. */
+  position: Vec3;
+  /** Bounced in place, if the body has one. */
+  velocity?: Vec3;
+  collider: Collider;
+}
+
+export interface Contact {
+  a: string;
+  b: string;
+  /** Unit vector pointing from `a` toward `b`. */
+  normal: Vec3;
+  /** How far the two overlap along `normal`. */
+  depth: number;
+  trigger: boolean;
+}
+
+export interface CollisionReport {
+  contacts: Contact[];
+  /** Pairs touching now that weren't last step. */
+  entered: Contact[];
+  /** Pairs touching last step that aren't now, including ones where a body is gone. */
+  exited: [string, string][];
+}
+
+export interface CollisionEvent {
+  type: "enter" | "exit";
+  a: string;
+  b: string;
+  /** Null on exit. */
+  contact: Contact | null;
+}
+
+const DEFAULT_RESTITUTION = 0.5;
+const AXES = ["x", "y", "z"] as const;
+
+const pairKey = (a: string, b: string) => `${a}|${b}`;
+
+function contactSpheres(a: Body, ra: number, b: Body, rb: number): Omit<Contact, "a" | "b" | "trigger"> | null {
+  const d = { x: b.position.x - a.position.x, y: b.position.y - a.position.y, z: b.position.z - a.position.z };
+  const dist = Math.hypot(d.x, d.y, d.z);
+  if (dist > ra + rb) return null;
+  const normal = dist > 0 ? { x: d.x / dist, y: d.y / dist, z: d.z / dist } : { x: 1, y: 0, z: 0 };
+  return { normal, depth: ra + rb - dist };
+}
+
+/** Normal points from the sphere toward the box. */
+function contactSphereBox(s: Body, radius: number, b: Body, half: Vec3): Omit<Contact, "a" | "b" | "trigger"> | null {
+  const local = { x: s.position.x - b.position.x, y: s.position.y - b.position.y, z: s.position.z - b.position.z };
+  const closest = {
+    x: Math.max(-half.x, Math.min(half.x, local.x)),
+    y: Math.max(-half.y, Math.min(half.y, local.y)),
+    z: Math.max(-half.z, Math.min(half.z, local.z)),
+  };
+  const out = { x: local.x - closest.x, y: local.y - closest.y, z: local.z - closest.z };
+  const dist = Math.hypot(out.x, out.y, out.z);
+  if (dist > radius) return null;
+  if (dist > 0) return { normal: { x: -out.x / dist, y: -out.y / dist, z: -out.z / dist }, depth: radius - dist };
+  // Centre inside the box: leave through the nearest face.
+  const axis = AXES.reduce((best, k) => half[k] - Math.abs(local[k]) < half[best] - Math.abs(local[best]) ? k : best);
+  const normal = { x: 0, y: 0, z: 0 };
+  normal[axis] = local[axis] < 0 ? 1 : -1;
+  return { normal, depth: half[axis] - Math.abs(local[axis]) + radius };
+}
+
+function contactBoxes(a: Body, ha: Vec3, b: Body, hb: Vec3): Omit<Contact, "a" | "b" | "trigger"> | null {
+  let axis: (typeof AXES)[number] = "x";
+  let depth = Infinity;
+  for (const k of AXES) {
+    const overlap = ha[k] + hb[k] - Math.abs(b.position[k] - a.position[k]);
+    if (overlap < 0) return null;
+    if (overlap < depth) [axis, depth] = [k, overlap];
+  }
+  const normal = { x: 0, y: 0, z: 0 };
+  normal[axis] = b.position[axis] < a.position[axis] ? -1 : 1;
+  return { normal, depth };
+}
+
+/** Where two bodies overlap (touching counts), or null if they don't. */
+export function intersect(a: Body, b: Body): Contact | null {
+  const sa = a.collider.shape, sb = b.collider.shape;
+  let hit: Omit<Contact, "a" | "b" | "trigger"> | null;
+  if (sa.kind === "sphere") {
+    hit = sb.kind === "sphere" ? contactSpheres(a, sa.radius, b, sb.radius) : contactSphereBox(a, sa.radius, b, sb.half);
+  } else if (sb.kind === "box") {
+    hit = contactBoxes(a, sa.half, b, sb.half);
+  } else {
+    hit = contactSphereBox(b, sb.radius, a, sa.half);
+    if (hit) hit.normal = { x: -hit.normal.x, y: -hit.normal.y, z: -hit.normal.z };
+  }
+  if (!hit) return null;
+  return { a: a.id, b: b.id, ...hit, trigger: !!(a.collider.trigger || b.collider.trigger) };
+}
+
+/** Push two solid bodies apart along the contact and bounce them off each other. */
+export function respond(a: Body, b: Body, contact: Contact): void {
+  if (contact.trigger) return;
+  const wa = a.collider.fixed ? 0 : 1;
+  const wb = b.collider.fixed ? 0 : 1;
+  if (!(wa + wb)) return;
+  const n = contact.normal;
+  const push = contact.depth / (wa + wb);
+  for (const k of AXES) {
+    a.position[k] -= n[k] * push * wa;
+    b.position[k] += n[k] * push * wb;
+  }
+
+  const va = a.velocity ?? { x: 0, y: 0, z: 0 };
+  const vb = b.velocity ?? { x: 0, y: 0, z: 0 };
+  const closing = (vb.x - va.x) * n.x + (vb.y - va.y) * n.y + (vb.z - va.z) * n.z;
+  if (closing >= 0) return;  // already separating
+  const e = Math.max(a.collider.restitution ?? DEFAULT_RESTITUTION, b.collider.restitution ?? DEFAULT_RESTITUTION);
+  const impulse = -(1 + e) * closing / (wa + wb);
+  for (const k of AXES) {
+    if (a.velocity && wa) a.velocity[k] -= n[k] * impulse;
+    if (b.velocity && wb) b.velocity[k] += n[k] * impulse;
+  }
+}
+
+/** Broad and narrow phase for a set of bodies, remembering which pairs touch between steps. */
+export class CollisionWorld {
+  private grid: SpatialGrid<Body>;
+  private touching = new Map<string, [string, string]>();
+  private ground: "y" | "z";
+
+  /** `up` is the vertical axis; the grid is laid over the other two. */
+  constructor({ cellSize = 20, up = "z" }: { cellSize?: number; up?: "y" | "z" } = {}) {
+    this.grid = new SpatialGrid(cellSize);
+    this.ground = up === "z" ? "y" : "z";
+  }
+
+  /** Detect every contact among `bodies`, resolve the solid ones and report what changed. */
+  step(bodies: Iterable<Body>): CollisionReport {
+    this.grid.clear();
+    const list = [...bodies];
+    for (const body of list) this.grid.set(body.id, this.footprint(body), body);
+
+    const contacts: Contact[] = [];
+    for (const body of list) {
+      const { x, y, radius } = this.footprint(body);
+      for (const { data: other } of this.grid.queryCircle(x, y, radius)) {
+        if (other.id <= body.id) continue;  // each pair once
+        const contact = intersect(body, other);
+        if (!contact) continue;
+        respond(body, other, contact);
+        contacts.push(contact);
+      }
+    }
+
+    const now = new Map(contacts.map(c => [pairKey(c.a, c.b), c]));
+    const entered = contacts.filter(c => !this.touching.has(pairKey(c.a, c.b)));
+    const exited = [...this.touching].filter(([key]) => !now.has(key)).map(([, pair]) => pair);
+    this.touching = new Map(contacts.map(c => [pairKey(c.a, c.b), [c.a, c.b]]));
+    return { contacts, entered, exited };
+  }
+
+  isTouching(a: string, b: string): boolean {
+    return this.touching.has(a < b ? pairKey(a, b) : pairKey(b, a));
+  }
+
+  /** Forget which pairs touch, e.g. after the bodies were replaced wholesale. */
+  reset(): void {
+    this.touching.clear();
+  }
+
+  /** Circle on the ground plane enclosing the collider. */
+  private footprint(body: Body) {
+    const shape = body.collider.shape;
+    const radius = shape.kind === "sphere" ? shape.radius : Math.hypot(shape.half.x, shape.half[this.ground]);
+    return { x: body.position.x, y: body.position[this.ground], radius };
+  }
+}
@@ -1,7 +1,13 @@
 /**
  * BlackRoad Agent Mesh — Live D3.js Force Graph WebComponent
  * Renders agent nodes and their communication edges in real-time.
+ * Statuses, task counts and messages come from a TelemetryFeed.
  */
+import { defaultRng } from "../rng.js";
+import type { Rng } from "../rng.js";
+import type { TelemetryEvent } from "../telemetry/events.js";
+import type { TelemetryFeed } from "../telemetry/feed.js";
+
 export interface AgentNode {
   id: string;
   name: string;
@@ -26,6 +32,9 @@ const AGENT_COLORS: Record<string, string> = {
   security: "#ff1d6c",  // CIPHER  — hot pink
 };
 
+/** Frames an edge stays lit after a message crosses it. */
+const FLASH_FRAMES = 30;
+
 export class AgentMeshRenderer {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
@@ -33,41 +42,67 @@ export class AgentMeshRenderer {
   private edges: AgentEdge[] = [];
   private positions: Map<string, { x: number; y: number; vx: number; vy: number }> = new Map();
   private animFrame: number = 0;
+  private flashes = new Map<AgentEdge, number>();
 
-  constructor(canvas: HTMLCanvasElement) {
+  constructor(canvas: HTMLCanvasElement, private rng: Rng = defaultRng) {
     this.canvas = canvas;
     this.ctx = canvas.getContext("2d")!;
     this.initDefaultAgents();
   }
 
+  /** Known agents and bonds; counts start at zero until telemetry arrives. */
   private initDefaultAgents() {
     this.nodes = [
-      { id: "lucidia", name: "LUCIDIA", type: "logic",    status: "active", taskCount: 12 },
-      { id: "alice",   name: "ALICE",   type: "gateway",  status: "busy",   taskCount: 847 },
-      { id: "octavia", name: "OCTAVIA", type: "compute",  status: "active", taskCount: 201 },
-      { id: "prism",   name: "PRISM",   type: "vision",   status: "idle",   taskCount: 55 },
-      { id: "echo",    name: "ECHO",    type: "memory",   status: "active", taskCount: 133 },
-      { id: "cipher",  name: "CIPHER",  type: "security", status: "busy",   taskCount: 422 },
+      { id: "lucidia", name: "LUCIDIA", type: "logic",    status: "idle", taskCount: 0 },
+      { id: "alice",   name: "ALICE",   type: "gateway",  status: "idle", taskCount: 0 },
+      { id: "octavia", name: "OCTAVIA", type: "compute",  status: "idle", taskCount: 0 },
+      { id: "prism",   name: "PRISM",   type: "vision",   status: "idle", taskCount: 0 },
+      { id: "echo",    name: "ECHO",    type: "memory",   status: "idle", taskCount: 0 },
+      { id: "cipher",  name: "CIPHER",  type: "security", status: "idle", taskCount: 0 },
     ];
     this.edges = [
-      { source: "lucidia", target: "echo",    strength: 0.95, messageCount: 2340 },
-      { source: "alice",   target: "octavia", strength: 0.88, messageCount: 18920 },
-      { source: "cipher",  target: "alice",   strength: 0.82, messageCount: 5621 },
-      { source: "prism",   target: "echo",    strength: 0.75, messageCount: 3109 },
-      { source: "lucidia", target: "cipher",  strength: 0.65, messageCount: 901 },
-      { source: "alice",   target: "prism",   strength: 0.60, messageCount: 1204 },
+      { source: "lucidia", target: "echo",    strength: 0.95, messageCount: 0 },
+      { source: "alice",   target: "octavia", strength: 0.88, messageCount: 0 },
+      { source: "cipher",  target: "alice",   strength: 0.82, messageCount: 0 },
+      { source: "prism",   target: "echo",    strength: 0.75, messageCount: 0 },
+      { source: "lucidia", target: "cipher",  strength: 0.65, messageCount: 0 },
+      { source: "alice",   target: "prism",   strength: 0.60, messageCount: 0 },
     ];
     // Random initial positions
     const cx = this.canvas.width / 2, cy = this.canvas.height / 2;
     this.nodes.forEach(n => {
       this.positions.set(n.id, {
-        x: cx + (Math.random() - 0.5) * 200,
-        y: cy + (Math.random() - 0.5) * 200,
+        x: cx + this.rng.range(-100, 100),
+        y: cy + this.rng.range(-100, 100),
         vx: 0, vy: 0
       });
     });
   }
 
+  /** Update nodes and edges from live telemetry; returns an unsubscribe. */
+  attach(feed: TelemetryFeed): () => void {
+    return feed.on(events => this.applyTelemetry(events));
+  }
+
+  /** Events about unknown agents are ignored; messages between known ones add a weak edge if needed. */
+  applyTelemetry(events: TelemetryEvent[]): void {
+    for (const event of events) {
+      if (event.type === "message") {
+        if (!this.positions.has(event.from) || !this.positions.has(event.to) || event.from === event.to) continue;
+        let edge = this.edges.find(e =>
+          (e.source === event.from && e.target === event.to) || (e.source === event.to && e.target === event.from));
+        if (!edge) this.edges.push((edge = { source: event.from, target: event.to, strength: 0.3, messageCount: 0 }));
+        edge.messageCount += event.count;
+        this.flashes.set(edge, FLASH_FRAMES);
+        continue;
+      }
+      const node = this.nodes.find(n => n.id === event.agent);
+      if (!node) continue;
+      if (event.type === "status") node.status = event.status;
+      else node.taskCount = event.count;
+    }
+  }
+
   private applyForces() {
     // Repulsion between nodes
     const k = 8000;
@@ -115,10 +150,15 @@ export class AgentMeshRenderer {
       ctx.beginPath();
       ctx.moveTo(pa.x, pa.y);
       ctx.lineTo(pb.x, pb.y);
-      ctx.strokeStyle = `rgba(255,29,108,${e.strength * 0.4})`;
-      ctx.lineWidth = e.strength * 3;
+      const glow = (this.flashes.get(e) ?? 0) / FLASH_FRAMES;
+      ctx.strokeStyle = `rgba(255,29,108,${e.strength * 0.4 + glow * 0.6})`;
+      ctx.lineWidth = e.strength * 3 + glow * 2;
       ctx.stroke();
     });
+    this.flashes.forEach((frames, e) => {
+      if (frames > 1) this.flashes.set(e, frames - 1);
+      else this.flashes.delete(e);
+    });
 
     // Draw nodes
     this.nodes.forEach(n => {
@@ -0,0 +1,317 @@
+/**
+ * BlackRoad RPG — Content Packs
+ * Zones, encounters and rewards loaded from JSON packs, validated against
+ * the content schema and served from a registry that can hot-reload.
+ */
+import type { Encounter, Zone } from "./levels/index.js";
+import { getMove } from "./moves.js";
+import { getItem } from "./items.js";
+
+export const ENCOUNTER_TYPES = ["logic", "gateway", "compute", "vision", "memory", "security"] as const;
+export type EncounterType = typeof ENCOUNTER_TYPES[number];
+
+export const DIFFICULTIES: Encounter["difficulty"][] = ["trivial", "normal", "hard", "legendary"];
+export const MAX_PLAYER_LEVEL = 50;
+
+export interface ContentPack {
+  id: string;
+  name?: string;
+  zones: Zone[];
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+const isString = (v: unknown): v is string => typeof v === "string" && v.length > 0;
+const isLevel = (v: unknown): v is number => Number.isInteger(v) && (v as number) >= 1 && (v as number) <= MAX_PLAYER_LEVEL;
+const isColor = (v: unknown): v is string => typeof v === "string" && /^#[0-9a-f]{6}$/i.test(v);
+
+function validateEncounter(e: unknown, at: string, issues: string[]) {
+  if (!isObject(e)) return issues.push(`${at} is not an object`);
+  for (const key of ["id", "name", "agentName", "description"]) {
+    if (!isString(e[key])) issues.push(`${at}.${key} must be a non-empty string`);
+  }
+  if (!ENCOUNTER_TYPES.includes(e.type as EncounterType)) issues.push(`${at}.type "${String(e.type)}" is not a known type`);
+  if (!DIFFICULTIES.includes(e.difficulty as Encounter["difficulty"])) issues.push(`${at}.difficulty "${String(e.difficulty)}" is not a known difficulty`);
+  if (!isLevel(e.level)) issues.push(`${at}.level must be an integer from 1 to ${MAX_PLAYER_LEVEL}`);
+  if (!Number.isFinite(e.xpReward) || (e.xpReward as number) < 0) issues.push(`${at}.xpReward must be a non-negative number`);
+  if (!Array.isArray(e.moves) || !e.moves.length) {
+    issues.push(`${at}.moves must be a non-empty array`);
+  } else {
+    for (const move of e.moves) if (!isString(move) || !getMove(move)) issues.push(`${at}.moves: unknown move "${String(move)}"`);
+  }
+}
+
+/** Finds a zone that (transitively) requires clearing itself. */
+function findGateCycle(zones: Zone[]): string[] | null {
+  const byId = new Map(zones.map(z => [z.id, z]));
+  const state = new Map<string, "visiting" | "done">();
+  const visit = (id: string, path: string[]): string[] | null => {
+    if (state.get(id) === "visiting") return [...path, id];
+    if (state.get(id) === "done") return null;
+    state.set(id, "visiting");
+    for (const next of byId.get(id)?.requiresCleared ?? []) {
+      const cycle = visit(next, [...path, id]);
+      if (cycle) return cycle;
+    }
+    state.set(id, "done");
+    return null;
+  };
+  for (const zone of zones) {
+    const cycle = visit(zone.id, []);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Zones no player can ever enter. Players start at level 1 and only level
+ * up from encounter XP, which is endless once any zone offering some is
+ * open, so a zone is reachable when its gate zones are and it needs level
+ * 1, or XP can be earned in zones reachable without it.
+ */
+function findUnreachable(zones: Zone[]): Zone[] {
+  const reached = new Set<Zone>();
+  for (let grew = true; grew;) {
+    grew = false;
+    const xp = [...reached].some(z => z.encounters.some(e => e.xpReward > 0));
+    for (const zone of zones) {
+      if (reached.has(zone) || (zone.requiredLevel > 1 && !xp)) continue;
+      if (!(zone.requiresCleared ?? []).every(id => [...reached].some(z => z.id === id))) continue;
+      reached.add(zone);
+      grew = true;
+    }
+  }
+  return zones.filter(z => !reached.has(z));
+}
+
+/**
+ * Returns schema and consistency problems for a pack, checked against the
+ * zones already loaded from other packs. Empty when the pack is valid.
+ */
+export function validatePack(raw: unknown, loaded: Zone[] = []): string[] {
+  const issues: string[] = [];
+  if (!isObject(raw)) return ["pack is not an object"];
+  if (!isString(raw.id)) issues.push("id must be a non-empty string");
+  if (!Array.isArray(raw.zones)) return [...issues, "zones must be an array"];
+
+  raw.zones.forEach((zone: unknown, i) => {
+    const at = `zones[${i}]`;
+    if (!isObject(zone)) return issues.push(`${at} is not an object`);
+    for (const key of ["id", "name", "guardian", "color", "description", "reward", "rewardItem"]) {
+      if (!isString(zone[key])) issues.push(`${at}.${key} must be a non-empty string`);
+    }
+    if (isString(zone.rewardItem) && !getItem(zone.rewardItem)) issues.push(`${at}.rewardItem "${zone.rewardItem}" is not a known item`);
+    if (isString(zone.color) && !isColor(zone.color)) issues.push(`${at}.color must be "#RRGGBB"`);
+    if (zone.layout !== undefined) {
+      const layout = zone.layout;
+      if (!isObject(layout) || !Number.isFinite(layout.x) || !Number.isFinite(layout.y)) {
+        issues.push(`${at}.layout must have finite x and y`);
+      } else if (!Number.isFinite(layout.radius) || (layout.radius as number) <= 0) {
+        issues.push(`${at}.layout.radius must be a positive number`);
+      }
+    }
+    if (!isLevel(zone.requiredLevel)) issues.push(`${at}.requiredLevel must be an integer from 1 to ${MAX_PLAYER_LEVEL}`);
+    if (zone.requiresCleared !== undefined && (!Array.isArray(zone.requiresCleared) || !zone.requiresCleared.every(isString))) {
+      issues.push(`${at}.requiresCleared must be a string array`);
+    }
+    if (!Array.isArray(zone.encounters) || !zone.encounters.length) {
+      issues.push(`${at}.encounters must be a non-empty array`);
+    } else {
+      zone.encounters.forEach((e: unknown, j) => validateEncounter(e, `${at}.encounters[${j}]`, issues));
+    }
+  });
+  if (issues.length) return issues;
+
+  // Cross-references, checked against everything that would be loaded together.
+  const zones = raw.zones as Zone[];
+  const all = [...loaded, ...zones];
+  const seenZones = new Set<string>();
+  const seenEncounters = new Set<string>();
+  const guardians = new Map<string, string>();
+  const centres = new Map<string, string>();
+  for (const zone of all) {
+    if (seenZones.has(zone.id)) issues.push(`duplicate zone id "${zone.id}"`);
+    seenZones.add(zone.id);
+    // Each guardian is one entity in the world, keyed by its name.
+    const guardian = zone.guardian.toLowerCase();
+    if (guardians.has(guardian)) issues.push(`zones "${guardians.get(guardian)}" and "${zone.id}" share guardian ${zone.guardian}`);
+    guardians.set(guardian, zone.id);
+    if (zone.layout) {
+      const centre = `${zone.layout.x},${zone.layout.y}`;
+      if (centres.has(centre)) issues.push(`zones "${centres.get(centre)}" and "${zone.id}" share the map centre (${centre})`);
+      centres.set(centre, zone.id);
+    }
+    for (const e of zone.encounters) {
+      if (seenEncounters.has(e.id)) issues.push(`duplicate encounter id "${e.id}"`);
+      seenEncounters.add(e.id);
+    }
+  }
+  for (const zone of zones) {
+    for (const id of zone.requiresCleared ?? []) {
+      const target = all.find(z => z.id === id);
+      if (!target) {
+        issues.push(`zone "${zone.id}" requires clearing unknown zone "${id}"`);
+      } else if (!target.encounters.some(e => e.difficulty === "legendary")) {
+        issues.push(`zone "${zone.id}" requires clearing "${id}", which has no legendary guardian to defeat`);
+      } else if (zone.requiredLevel < target.requiredLevel) {
+        issues.push(`zone "${zone.id}" needs level ${zone.requiredLevel}, below the level ${target.requiredLevel} of "${id}" it requires clearing`);
+      }
+    }
+  }
+  const cycle = findGateCycle(all);
+  if (cycle) {
+    issues.push(`zone gates form a cycle: ${cycle.join(" → ")}`);
+  } else if (!issues.length) {
+    const unreachable = findUnreachable(all);
+    for (const zone of unreachable.filter(z => zones.includes(z))) {
+      const blocked = (zone.requiresCleared ?? []).filter(id => unreachable.some(z => z.id === id));
+      issues.push(blocked.length
+        ? `zone "${zone.id}" requires clearing ${blocked.map(id => `"${id}"`).join(", ")}, which can never be reached`
+        : `zone "${zone.id}" can never be reached: it needs level ${zone.requiredLevel} but no XP can be earned before it`);
+    }
+  }
+  return issues;
+}
+
+/** Parses and validates a pack from JSON or an already-decoded object. */
+export function parsePack(raw: string | unknown, loaded: Zone[] = []): ContentPack {
+  const data = typeof raw === "string" ? JSON.parse(raw) : raw;
+  const issues = validatePack(data, loaded);
+  if (issues.length) {
+    const id = isObject(data) && isString(data.id) ? data.id : "?";
+    throw new Error(`Invalid content pack "${id}": ${issues.join("; ")}`);
+  }
+  return data as ContentPack;
+}
+
+type ChangeListener = (packs: readonly ContentPack[]) => void;
+
+export class ContentRegistry {
+  private packs: ContentPack[] = [];
+  private listeners: ChangeListener[] = [];
+  /** Own packs' zones after the parent's; rebuilt when either changes. */
+  private zones: Zone[] = [];
+  private inherited: readonly Zone[] = [];
+
+  /** A registry with a `parent` serves the parent's zones, live, followed by its own packs. */
+  constructor(packs: ContentPack[] = [], private parent?: ContentRegistry) {
+    this.inherited = parent?.getZones() ?? [];
+    this.zones = [...this.inherited];
+    for (const pack of packs) this.load(pack);
+  }
+
+  /**
+   * A child registry for content only some callers should see, such as
+   * one player's generated zones: it serves everything loaded here, now
+   * or later, plus packs loaded into the child alone.
+   */
+  fork(): ContentRegistry {
+    return new ContentRegistry([], this);
+  }
+
+  /** Also hears changes to the parent's packs. */
+  onChange(listener: ChangeListener): () => void {
+    this.listeners.push(listener);
+    const offParent = this.parent?.onChange(() => listener(this.getPacks()));
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+      offParent?.();
+    };
+  }
+
+  private commit(packs: ContentPack[]) {
+    this.packs = packs;
+    this.zones = [...this.inherited, ...packs.flatMap(p => p.zones)];
+    this.listeners.forEach(l => l(this.getPacks()));
+  }
+
+  load(raw: ContentPack | string): ContentPack {
+    const pack = parsePack(raw, this.getZones());
+    if (this.getPacks().some(p => p.id === pack.id)) throw new Error(`Content pack "${pack.id}" is already loaded`);
+    this.commit([...this.packs, pack]);
+    return pack;
+  }
+
+  /** Replace a loaded pack in place; the previous version stays live if the new one is invalid. */
+  reload(raw: ContentPack | string): ContentPack {
+    const data = typeof raw === "string" ? JSON.parse(raw) : raw;
+    const index = this.packs.findIndex(p => p.id === data?.id);
+    if (index === -1) return this.load(data);
+    const others = [...this.inherited, ...this.packs.filter((_, i) => i !== index).flatMap(p => p.zones)];
+    const pack = parsePack(data, others);
+    this.commit(this.packs.map((p, i) => (i === index ? pack : p)));
+    return pack;
+  }
+
+  /** Only packs loaded into this registry can be unloaded from it. */
+  unload(id: string): boolean {
+    if (!this.packs.some(p => p.id === id)) return false;
+    this.commit(this.packs.filter(p => p.id !== id));
+    return true;
+  }
+
+  getPacks(): readonly ContentPack[] {
+    return this.parent ? [...this.parent.getPacks(), ...this.packs] : this.packs;
+  }
+
+  /** The same array until the content changes, so callers can cache by identity. */
+  getZones(): Zone[] {
+    const inherited = this.parent?.getZones();
+    if (inherited && inherited !== this.inherited) {
+      this.inherited = inherited;
+      this.zones = [...inherited, ...this.packs.flatMap(p => p.zones)];
+    }
+    return this.zones;
+  }
+
+  getZone(id: string): Zone | undefined {
+    return this.getZones().find(z => z.id === id);
+  }
+
+  /** Zones with a layout, i.e. those on the world map. */
+  getMapZones(): Zone[] {
+    return this.getZones().filter(z => z.layout);
+  }
+
+  getZonesForLevel(level: number): Zone[] {
+    return this.getZones().filter(z => z.requiredLevel <= level);
+  }
+
+  findEncounter(id: string): Encounter | undefined {
+    for (const zone of this.getZones()) {
+      const encounter = zone.encounters.find(e => e.id === id);
+      if (encounter) return encounter;
+    }
+    return undefined;
+  }
+
+  zoneOfEncounter(id: string): Zone | undefined {
+    return this.getZones().find(z => z.encounters.some(e => e.id === id));
+  }
+}
+
+// ── Loaders ───────────────────────────────────────────────────────────────────
+
+export async function loadPackUrl(registry: ContentRegistry, url: string): Promise<ContentPack> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Failed to fetch content pack ${url}: ${res.status}`);
+  return registry.reload(await res.text());
+}
+
+/** Node-only: load a pack from a JSON file. */
+export async function loadPackFile(registry: ContentRegistry, path: string): Promise<ContentPack> {
+  const { readFile } = await import("node:fs/promises");
+  return registry.reload(await readFile(path, "utf8"));
+}
+
+/**
+ * Node-only, for development: reload a pack whenever its file changes.
+ * Invalid edits are reported and the last good version stays loaded.
+ */
+export async function watchPackFile(registry: ContentRegistry, path: string): Promise<() => void> {
+  const { watch } = await import("node:fs");
+  await loadPackFile(registry, path);
+  const watcher = watch(path, () => {
+    loadPackFile(registry, path).catch(err => console.warn(`Content reload failed for ${path}: ${err.message}`));
+  });
+  return () => watcher.close();
+}
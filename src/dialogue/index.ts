@@ -0,0 +1,208 @@
+/**
+ * BlackRoad RPG — Dialogue
+ * Branching, data-only conversations with guardians and encounters. Nodes
+ * and choices are gated on PlayerState and can start battles, grant items,
+ * unlock zones or set flags. Authored as JSON packs; see core.json.
+ */
+import type { PlayerState } from "../game.js";
+import { contentRegistry } from "../levels/index.js";
+import { countItem, getItem } from "../items.js";
+import CORE_DIALOGUE from "./core.json";
+
+export type DialogueCondition = { not?: boolean } & (
+  | { kind: "level"; min?: number; max?: number }
+  | { kind: "captured"; agent: string }
+  | { kind: "item"; item: string; count?: number }
+  | { kind: "zone_cleared"; zone: string }
+  | { kind: "flag"; flag: string }
+);
+
+export type DialogueEffect =
+  | { kind: "battle"; encounter: string; boss?: boolean }  // boss: fight as the zone guardian
+  | { kind: "grant_item"; item: string; quantity?: number }
+  | { kind: "unlock_zone"; zone: string }
+  | { kind: "set_flag"; flag: string };
+
+export interface DialogueChoice {
+  text: string;
+  next?: string;  // node id; the conversation ends without one
+  if?: DialogueCondition[];
+  then?: DialogueEffect[];
+}
+
+export interface DialogueNode {
+  speaker?: string;  // defaults to the conversation's speaker
+  text: string;
+  choices?: DialogueChoice[];
+  then?: DialogueEffect[];  // applied when the node is reached
+}
+
+export interface Conversation {
+  id: string;
+  subject: string;  // encounter id of who is being talked to
+  speaker: string;
+  if?: DialogueCondition[];
+  start: string;
+  nodes: Record<string, DialogueNode>;
+}
+
+export interface DialoguePack {
+  id: string;
+  conversations: Conversation[];
+}
+
+/** What the UI shows for the current node: only choices whose conditions pass. */
+export interface DialogueView {
+  conversation: string;
+  node: string;
+  speaker: string;
+  text: string;
+  choices: { index: number; text: string }[];
+}
+
+const CONDITION_KINDS = ["level", "captured", "item", "zone_cleared", "flag"];
+const EFFECT_KINDS = ["battle", "grant_item", "unlock_zone", "set_flag"];
+
+function meets(player: Readonly<PlayerState>, condition: DialogueCondition): boolean {
+  let pass: boolean;
+  switch (condition.kind) {
+    case "level":
+      pass = player.level >= (condition.min ?? 1) && player.level <= (condition.max ?? Infinity);
+      break;
+    case "captured":
+      pass = player.agents_captured.includes(condition.agent);
+      break;
+    case "item":
+      pass = countItem(player.inventory, condition.item) >= (condition.count ?? 1);
+      break;
+    case "zone_cleared":
+      pass = !!player.zones[condition.zone]?.guardian_defeated;
+      break;
+    case "flag":
+      pass = player.dialogue_flags.includes(condition.flag);
+      break;
+  }
+  return condition.not ? !pass : pass;
+}
+
+export function meetsAll(player: Readonly<PlayerState>, conditions: DialogueCondition[] = []): boolean {
+  return conditions.every(c => meets(player, c));
+}
+
+export function viewNode(player: Readonly<PlayerState>, conversation: Conversation, nodeId: string): DialogueView {
+  const node = conversation.nodes[nodeId];
+  return {
+    conversation: conversation.id,
+    node: nodeId,
+    speaker: node.speaker ?? conversation.speaker,
+    text: node.text,
+    choices: (node.choices ?? [])
+      .map((choice, index) => ({ index, text: choice.text, choice }))
+      .filter(c => meetsAll(player, c.choice.if))
+      .map(({ index, text }) => ({ index, text })),
+  };
+}
+
+// ── Validation ────────────────────────────────────────────────────────────────
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+const isString = (v: unknown): v is string => typeof v === "string" && v.length > 0;
+
+function validateCondition(c: unknown, at: string, issues: string[]) {
+  if (!isObject(c) || !CONDITION_KINDS.includes(c.kind as string)) return issues.push(`${at} is not a known condition`);
+  if (c.kind === "captured" && !contentRegistry.findEncounter(c.agent as string)) issues.push(`${at}: unknown agent "${String(c.agent)}"`);
+  if (c.kind === "item" && !getItem(c.item as string)) issues.push(`${at}: unknown item "${String(c.item)}"`);
+  if (c.kind === "zone_cleared" && !contentRegistry.getZone(c.zone as string)) issues.push(`${at}: unknown zone "${String(c.zone)}"`);
+  if (c.kind === "flag" && !isString(c.flag)) issues.push(`${at}.flag must be a non-empty string`);
+}
+
+function validateEffect(e: unknown, at: string, issues: string[]) {
+  if (!isObject(e) || !EFFECT_KINDS.includes(e.kind as string)) return issues.push(`${at} is not a known effect`);
+  if (e.kind === "battle" && !contentRegistry.findEncounter(e.encounter as string)) issues.push(`${at}: unknown encounter "${String(e.encounter)}"`);
+  if (e.kind === "grant_item" && !getItem(e.item as string)) issues.push(`${at}: unknown item "${String(e.item)}"`);
+  if (e.kind === "unlock_zone" && !contentRegistry.getZone(e.zone as string)) issues.push(`${at}: unknown zone "${String(e.zone)}"`);
+  if (e.kind === "set_flag" && !isString(e.flag)) issues.push(`${at}.flag must be a non-empty string`);
+}
+
+/** Returns schema and reference problems in a dialogue pack; empty when it is valid. */
+export function validateDialogue(raw: unknown, loaded: Conversation[] = []): string[] {
+  const issues: string[] = [];
+  if (!isObject(raw)) return ["dialogue pack is not an object"];
+  if (!isString(raw.id)) issues.push("id must be a non-empty string");
+  if (!Array.isArray(raw.conversations)) return [...issues, "conversations must be an array"];
+
+  const seen = new Set(loaded.map(c => c.id));
+  raw.conversations.forEach((c: unknown, i) => {
+    const at = `conversations[${i}]`;
+    if (!isObject(c)) return issues.push(`${at} is not an object`);
+    for (const key of ["id", "subject", "speaker", "start"]) if (!isString(c[key])) issues.push(`${at}.${key} must be a non-empty string`);
+    if (isString(c.id) && seen.has(c.id)) issues.push(`duplicate conversation id "${c.id}"`);
+    seen.add(c.id as string);
+    if (isString(c.subject) && !contentRegistry.findEncounter(c.subject)) issues.push(`${at}.subject "${c.subject}" is not a known encounter`);
+    (Array.isArray(c.if) ? c.if : []).forEach((cond, j) => validateCondition(cond, `${at}.if[${j}]`, issues));
+    if (!isObject(c.nodes)) return issues.push(`${at}.nodes must be an object`);
+    const nodes = c.nodes;
+    if (isString(c.start) && !nodes[c.start]) issues.push(`${at}.start "${c.start}" is not a node`);
+
+    for (const [id, node] of Object.entries(nodes)) {
+      const nat = `${at}.nodes.${id}`;
+      if (!isObject(node) || !isString(node.text)) {
+        issues.push(`${nat}.text must be a non-empty string`);
+        continue;
+      }
+      (Array.isArray(node.then) ? node.then : []).forEach((e, j) => validateEffect(e, `${nat}.then[${j}]`, issues));
+      (Array.isArray(node.choices) ? node.choices : []).forEach((choice: unknown, j) => {
+        const cat = `${nat}.choices[${j}]`;
+        if (!isObject(choice) || !isString(choice.text)) return issues.push(`${cat}.text must be a non-empty string`);
+        if (choice.next !== undefined && !(isString(choice.next) && nodes[choice.next])) issues.push(`${cat}.next "${String(choice.next)}" is not a node`);
+        (Array.isArray(choice.if) ? choice.if : []).forEach((cond, k) => validateCondition(cond, `${cat}.if[${k}]`, issues));
+        (Array.isArray(choice.then) ? choice.then : []).forEach((e, k) => validateEffect(e, `${cat}.then[${k}]`, issues));
+      });
+    }
+  });
+  return issues;
+}
+
+export function parseDialogue(raw: string | unknown, loaded: Conversation[] = []): DialoguePack {
+  const data = typeof raw === "string" ? JSON.parse(raw) : raw;
+  const issues = validateDialogue(data, loaded);
+  if (issues.length) {
+    const id = isObject(data) && isString(data.id) ? data.id : "?";
+    throw new Error(`Invalid dialogue pack "${id}": ${issues.join("; ")}`);
+  }
+  return data as DialoguePack;
+}
+
+// ── Library ───────────────────────────────────────────────────────────────────
+
+export class DialogueLibrary {
+  private conversations: Conversation[] = [];
+
+  constructor(packs: unknown[] = []) {
+    for (const pack of packs) this.load(pack);
+  }
+
+  load(raw: DialoguePack | string | unknown): DialoguePack {
+    const pack = parseDialogue(raw, this.conversations);
+    this.conversations = [...this.conversations, ...pack.conversations];
+    return pack;
+  }
+
+  get(id: string): Conversation | undefined {
+    return this.conversations.find(c => c.id === id);
+  }
+
+  /** Conversations with `subject` whose opening conditions the player meets. */
+  available(subject: string, player: Readonly<PlayerState>): Conversation[] {
+    return this.conversations.filter(c => c.subject === subject && meetsAll(player, c.if));
+  }
+}
+
+/** The built-in conversations; load more packs into it at runtime. */
+export const dialogueLibrary = new DialogueLibrary([CORE_DIALOGUE]);
+
+/** Node-only: load a dialogue pack from a JSON file. */
+export async function loadDialogueFile(library: DialogueLibrary, path: string): Promise<DialoguePack> {
+  const { readFile } = await import("node:fs/promises");
+  return library.load(await readFile(path, "utf8"));
+}
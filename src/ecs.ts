@@ -0,0 +1,161 @@
+/**
+ * BlackRoad Interactive — Entity-Component System
+ * Entities are ids with a kind; state lives in typed component stores and
+ * systems update it each tick. Queries return every entity holding a set
+ * of components.
+ */
+import type { Collider } from "./collision.js";
+
+export type EntityKind = "player" | "agent" | "encounter" | "artifact" | "npc";
+
+export interface Transform { x: number; y: number; z: number; rotation: number }
+export interface Velocity { x: number; y: number; z: number }
+/** The world zone an entity currently stands in, or null between zones. */
+export interface ZoneMembership { zone: string | null }
+export interface AgentIdentity { agentId: string; name: string }
+/** Key a renderer uses to find the mesh or sprite drawn for the entity. */
+export interface RenderLink { key: string; visible: boolean }
+/** Circles a fixed centre; used for guardians idling in their zone. */
+export interface Orbit { cx: number; cy: number; radius: number; speed: number; angle: number }
+/** Walking a route; removed on arrival. */
+export interface Travel { waypoints: { x: number; y: number }[]; next: number; speed: number }
+
+export interface Components {
+  transform: Transform;
+  velocity: Velocity;
+  zone: ZoneMembership;
+  agent: AgentIdentity;
+  render: RenderLink;
+  orbit: Orbit;
+  travel: Travel;
+  collider: Collider;
+}
+
+export type ComponentName = keyof Components;
+
+export type EntityRow<K extends ComponentName> = { id: string; kind: EntityKind } & Pick<Components, K>;
+
+export interface SystemContext {
+  tick: number;
+  dt: number;  // seconds
+}
+
+export interface System {
+  name: string;
+  run(world: World, ctx: SystemContext): void;
+}
+
+export interface EntitySnapshot {
+  id: string;
+  kind: EntityKind;
+  components: Partial<Components>;
+}
+
+/** Every entity and component, deep-copied, plus the id counter so new spawns don't collide. */
+export interface WorldState {
+  nextId: number;
+  entities: EntitySnapshot[];
+}
+
+type Stores = { [K in ComponentName]: Map<string, Components[K]> };
+
+export class World {
+  private kinds = new Map<string, EntityKind>();
+  private stores: Stores = {
+    transform: new Map(), velocity: new Map(), zone: new Map(),
+    agent: new Map(), render: new Map(), orbit: new Map(), travel: new Map(), collider: new Map(),
+  };
+  private systems: System[] = [];
+  private nextId = 1;
+
+  /** Create an entity; ids are generated unless given, and must be unique. */
+  spawn(kind: EntityKind, components: Partial<Components> = {}, id = `${kind}-${this.nextId++}`): string {
+    if (this.kinds.has(id)) throw new Error(`Entity "${id}" already exists`);
+    this.kinds.set(id, kind);
+    for (const name of Object.keys(components) as ComponentName[]) this.set(id, name, components[name]!);
+    return id;
+  }
+
+  despawn(id: string): boolean {
+    if (!this.kinds.delete(id)) return false;
+    for (const store of Object.values(this.stores)) store.delete(id);
+    return true;
+  }
+
+  exists(id: string): boolean { return this.kinds.has(id); }
+  kindOf(id: string): EntityKind | undefined { return this.kinds.get(id); }
+  get size(): number { return this.kinds.size; }
+  entities(): IterableIterator<string> { return this.kinds.keys(); }
+
+  set<K extends ComponentName>(id: string, name: K, value: Components[K]): void {
+    if (!this.kinds.has(id)) throw new Error(`Unknown entity "${id}"`);
+    (this.stores[name] as Map<string, Components[K]>).set(id, value);
+  }
+
+  get<K extends ComponentName>(id: string, name: K): Components[K] | undefined {
+    return (this.stores[name] as Map<string, Components[K]>).get(id);
+  }
+
+  has(id: string, name: ComponentName): boolean {
+    return this.stores[name].has(id);
+  }
+
+  remove(id: string, name: ComponentName): boolean {
+    return this.stores[name].delete(id);
+  }
+
+  /** Entities holding every listed component, optionally of one kind. */
+  query<K extends ComponentName>(names: K[], kind?: EntityKind): EntityRow<K>[] {
+    const [first, ...rest] = [...names].sort((a, b) => this.stores[a].size - this.stores[b].size);
+    const ids = first ? [...this.stores[first].keys()] : [...this.kinds.keys()];
+    const rows: EntityRow<K>[] = [];
+    for (const id of ids) {
+      const entityKind = this.kinds.get(id)!;
+      if (kind && entityKind !== kind) continue;
+      if (!rest.every(name => this.stores[name].has(id))) continue;
+      const row = { id, kind: entityKind } as EntityRow<K>;
+      for (const name of names) (row as Record<string, unknown>)[name] = this.stores[name].get(id);
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  snapshotEntity(id: string): EntitySnapshot | undefined {
+    const kind = this.kinds.get(id);
+    if (!kind) return undefined;
+    const components: Partial<Components> = {};
+    for (const name of Object.keys(this.stores) as ComponentName[]) {
+      const value = this.stores[name].get(id);
+      if (value) (components as Record<string, unknown>)[name] = structuredClone(value);
+    }
+    return { id, kind, components };
+  }
+
+  getState(): WorldState {
+    return { nextId: this.nextId, entities: [...this.kinds.keys()].map(id => this.snapshotEntity(id)!) };
+  }
+
+  /** Replace every entity with those in `state`; systems are kept. */
+  setState(state: WorldState): void {
+    this.kinds.clear();
+    for (const store of Object.values(this.stores)) store.clear();
+    for (const entity of state.entities) this.spawn(entity.kind, structuredClone(entity.components), entity.id);
+    this.nextId = state.nextId;
+  }
+
+  addSystem(system: System): void {
+    if (this.systems.some(s => s.name === system.name)) throw new Error(`System "${system.name}" already added`);
+    this.systems.push(system);
+  }
+
+  removeSystem(name: string): boolean {
+    const before = this.systems.length;
+    this.systems = this.systems.filter(s => s.name !== name);
+    return this.systems.length < before;
+  }
+
+  /** Run every system once, in the order they were added. */
+  step(ctx: SystemContext): void {
+    for (const system of this.systems) system.run(this, ctx);
+  }
+}
@@ -2,8 +2,38 @@
  * BlackRoad Interactive — Main Game Loop
  * Orchestrates the agent RPG using Three.js 3D scene + AgentMesh renderer.
  */
-import type { Zone, Encounter } from "./levels/index.js";
-import { ZONES } from "./levels/index.js";
+import type { Zone, Encounter, EncounterType } from "./levels/index.js";
+import { contentRegistry } from "./levels/index.js";
+import type { ContentRegistry } from "./content.js";
+import { ENCOUNTER_RADIUS, PLAYER_RADIUS, encounterSpots, zoneAt } from "./game_engine.js";
+import { Battle, maxHpForLevel } from "./battle.js";
+import { MAX_PARTY_SIZE, createCapturedAgent, getLeadAgent, leadCaptureBonus } from "./party.js";
+import type { PartyChange } from "./party.js";
+import { PLAYER_XP_TABLE, awardAgentXp, playerXpToNext } from "./progression.js";
+import { FINAL_ZONE, emptyProgress, getGuardian, getGuardianEncounter } from "./guardians.js";
+import type { ZoneProgress } from "./guardians.js";
+import { getSpawnTable } from "./spawns.js";
+import type { SpawnContext, SpawnOdds } from "./spawns.js";
+import type { BattleAction, BattleLogEntry, BattleOutcome, BossScript } from "./battle.js";
+import { createSave, parseSave } from "./save.js";
+import type { SaveData } from "./save.js";
+import { defaultRng } from "./rng.js";
+import type { Rng } from "./rng.js";
+import { getMove, TYPE_CHART } from "./moves.js";
+import type { MoveDef } from "./moves.js";
+import { addItem, applyStatBoosts, countItem, emptyStats, getItem, hasEffect, removeItem } from "./items.js";
+import type { InventoryEntry, ItemDef, PlayerStat } from "./items.js";
+import { ACHIEVEMENTS, achievementPoints, emptyAchievements, listAchievements, trackAchievements } from "./achievements.js";
+import type { AchievementDef, AchievementProgress, AchievementStatus } from "./achievements.js";
+import { dialogueLibrary, meetsAll, viewNode } from "./dialogue/index.js";
+import type { Conversation, DialogueEffect, DialogueLibrary, DialogueView } from "./dialogue/index.js";
+import { endlessZoneId, loadEndlessZones } from "./procedural.js";
+import type { EndlessProgress } from "./procedural.js";
+import type { SimClock } from "./clock.js";
+import { ProximityTriggers } from "./spatial.js";
+import { TRAVEL_SPEED, navGraphFor } from "./nav.js";
+import type { NavRoute } from "./nav.js";
+import type { ProximityTrigger } from "./spatial.js";
 
 export interface PlayerState {
   level: number;
@@ -12,40 +42,188 @@ export interface PlayerState {
   current_zone: string;
   position: { x: number; y: number; z: number };
   party: CapturedAgent[];
+  box: CapturedAgent[];
+  inventory: InventoryEntry[];
+  stats: Record<PlayerStat, number>;
+  zones: Record<string, ZoneProgress>;
+  chapters_unlocked: string[];
+  achievements: AchievementProgress;
+  dialogue_flags: string[];
+  endless: EndlessProgress | null;  // procedural zones opened past the final zone
 }
 
 export interface CapturedAgent {
   id: string;
   name: string;
-  type: string;
+  type: EncounterType;
   level: number;
   moves: string[];
   hp: number;
   max_hp: number;
+  xp: number;
+  species: string;  // encounter id of the current form; changes on evolution
+}
+
+export interface GameOptions {
+  rng?: Rng;
+  /** XP needed per player level; see PLAYER_XP_TABLE. */
+  xpTable?: number[];
+  /**
+   * Zone content source; defaults to the shared registry. The game plays on
+   * a fork of it, so its generated zones are seen by no other game.
+   */
+  content?: ContentRegistry;
+  /** Achievements to track; defaults to ACHIEVEMENTS. */
+  achievements?: AchievementDef[];
+  /** Conversation source; defaults to the shared dialogue library. */
+  dialogue?: DialogueLibrary;
+  /** Encounters shared with other games, e.g. other players on one server; defaults to none. */
+  locks?: EncounterLocks;
+  /** Encounter id of the agent a new run starts with; defaults to STARTER_ENCOUNTER. */
+  starter?: string;
+  /**
+   * Battle wild encounters the player walks into, at their spots on the map;
+   * defaults to true. The world server turns this off and uses collisions.
+   */
+  encounterTriggers?: boolean;
+}
+
+/**
+ * Claims on encounters shared between games. An encounter another game holds
+ * neither spawns nor fights; a game holds one from the moment its battle
+ * starts until the battle is resolved.
+ */
+export interface EncounterLocks {
+  isHeld(encounterId: string): boolean;
+  /** Claim the encounter; false when another game already holds it. */
+  acquire(encounterId: string): boolean;
+  release(encounterId: string): void;
+}
+
+const NO_LOCKS: EncounterLocks = { isHeld: () => false, acquire: () => true, release: () => {} };
+
+/** Encounter details exposed by items with the `reveal_encounters` effect. */
+export interface EncounterIntel {
+  type: EncounterType;
+  level: number;
+  difficulty: Encounter["difficulty"];
+  max_hp: number;
+  moves: MoveDef[];
+  weaknesses: EncounterType[];
 }
 
 export type GameEvent =
-  | { type: "encounter"; encounter: Encounter }
-  | { type: "zone_enter"; zone: Zone }
-  | { type: "capture"; agent: CapturedAgent }
-  | { type: "battle_win"; xp_gained: number }
-  | { type: "level_up"; new_level: number };
+  | { type: "encounter"; encounter: Encounter; intel: EncounterIntel | null }
+  | { type: "zone_enter"; zone: Zone; fast_travel: boolean }
+  | { type: "zone_exit"; zone: Zone }
+  | { type: "travel_start"; zone: Zone; route: NavRoute }
+  | { type: "travel_end"; zone: Zone; arrived: boolean }
+  | { type: "proximity_enter"; trigger: ProximityTrigger; encounter: Encounter }
+  | { type: "proximity_exit"; trigger: ProximityTrigger; encounter: Encounter }
+  | { type: "zone_complete"; zone: Zone }
+  | { type: "zone_unlocked"; zone: Zone }
+  | { type: "zone_generated"; zone: Zone; depth: number }
+  | { type: "guardian_phase"; zone: Zone; phase: number; text: string }
+  | { type: "guardian_defeated"; zone: Zone }
+  | { type: "chapter_unlocked"; chapter: string }
+  | { type: "item_acquired"; item: ItemDef; quantity: number }
+  | { type: "item_used"; item: ItemDef; target?: CapturedAgent }
+  | { type: "capture"; agent: CapturedAgent; stored: boolean }
+  | { type: "party_change"; change: PartyChange; agent: CapturedAgent; party: CapturedAgent[] }
+  | { type: "battle_start"; encounter: Encounter }
+  | { type: "battle_turn"; encounter: Encounter; log: BattleLogEntry[] }
+  | { type: "battle_win"; encounter: Encounter; xp_gained: number }
+  | { type: "battle_lose"; encounter: Encounter }
+  | { type: "battle_flee"; encounter: Encounter }
+  | { type: "level_up"; new_level: number }
+  | { type: "agent_level_up"; agent: CapturedAgent; new_level: number }
+  | { type: "move_learned"; agent: CapturedAgent; move: string; forgotten?: string }
+  | { type: "agent_evolved"; agent: CapturedAgent; from: string; into: string }
+  | { type: "achievement_unlocked"; achievement: AchievementDef }
+  | { type: "dialogue"; view: DialogueView }
+  | { type: "dialogue_end"; conversation: string };
 
 type EventListener = (event: GameEvent) => void;
 
+/** How close the player must come to a zone's centre to be near its guardian. */
+export const GUARDIAN_TRIGGER_RADIUS = 50;
+
+/** How close the player must stand to an encounter to talk to it. */
+export const TALK_RADIUS = 50;
+
+/** Every run starts with this agent in its party, so there is always someone to battle with. */
+export const STARTER_ENCOUNTER = "paradox-daemon";
+
 export class GameLoop {
   private player: PlayerState;
   private listeners: EventListener[] = [];
+  private battle: Battle | null = null;
   private running = false;
-  private tickRate = 60;  // fps
+  private tickRate = 60;  // world ticks per simulated second
+  private tickCarry = 0;
+  private detachClock: (() => void) | null = null;
+  private rng: Rng;
+  private xpTable: number[];
+  private content: ContentRegistry;
+  private achievements: AchievementDef[];
+  private dialogueLibrary: DialogueLibrary;
+  private dialogue: { conversation: Conversation; node: string } | null = null;
+  private ticks = 0;
+  private lastSpawned: Record<string, number> = {};
+  private triggers = new ProximityTriggers();
+  private locks: EncounterLocks;
+  private encounterTriggers: boolean;
+  private travel: { zone: Zone; route: NavRoute; next: number } | null = null;
 
-  constructor(playerName: string) {
+  constructor(readonly playerName: string, options: GameOptions = {}) {
+    this.rng = options.rng ?? defaultRng;
+    this.xpTable = options.xpTable ?? PLAYER_XP_TABLE;
+    this.content = (options.content ?? contentRegistry).fork();
+    this.achievements = options.achievements ?? ACHIEVEMENTS;
+    this.dialogueLibrary = options.dialogue ?? dialogueLibrary;
+    this.locks = options.locks ?? NO_LOCKS;
+    this.encounterTriggers = options.encounterTriggers ?? true;
     this.player = {
       level: 1, xp: 0, agents_captured: [],
       current_zone: "recursion-depths",
       position: { x: 0, y: 0, z: 0 },
       party: [],
+      box: [],
+      inventory: [],
+      stats: emptyStats(),
+      zones: {},
+      chapters_unlocked: [],
+      achievements: emptyAchievements(),
+      dialogue_flags: [],
+      endless: null,
     };
+    this.grantStarter(options.starter ?? STARTER_ENCOUNTER);
+  }
+
+  /** Restore a run from a save object or its JSON, migrating older versions. */
+  static fromSave(save: SaveData | string, options: GameOptions = {}): GameLoop {
+    const data = parseSave(save, options.content ?? contentRegistry);
+    const game = new GameLoop(data.player_name, options);
+    game.player = data.player;
+    if (data.player.endless) loadEndlessZones(game.content, data.player.endless);
+    // Runs saved before starters existed may have no agent at all.
+    game.grantStarter(options.starter ?? STARTER_ENCOUNTER);
+    return game;
+  }
+
+  /** A run without any agent gets the starter, recorded as its first capture. */
+  private grantStarter(encounterId: string) {
+    const encounter = this.content.findEncounter(encounterId);
+    if (!encounter || this.player.party.length || this.player.box.length) return;
+    this.player.party.push(createCapturedAgent(encounter));
+    if (!this.player.agents_captured.includes(encounter.id)) this.player.agents_captured.push(encounter.id);
+    const zone = this.zoneOf(encounter);
+    const progress = zone && this.progressFor(zone.id);
+    if (progress && !progress.captured.includes(encounter.id)) progress.captured.push(encounter.id);
+  }
+
+  toSave(): SaveData {
+    return createSave(this.playerName, this.player);
   }
 
   on(listener: EventListener): () => void {
@@ -55,57 +233,752 @@ export class GameLoop {
 
   private emit(event: GameEvent) {
     this.listeners.forEach(l => l(event));
+    if (event.type === "achievement_unlocked") return;
+    for (const achievement of trackAchievements(this.player.achievements, event, this.content, this.achievements)) {
+      this.emit({ type: "achievement_unlocked", achievement });
+    }
   }
 
   getCurrentZone(): Zone | undefined {
-    return ZONES.find(z => z.id === this.player.current_zone);
+    return this.content.getZone(this.player.current_zone);
   }
 
   async enterZone(zoneId: string): Promise<boolean> {
-    const zone = ZONES.find(z => z.id === zoneId);
+    if (zoneId === this.nextEndlessZoneId()) this.openEndlessZone();
+    const zone = this.content.getZone(zoneId);
     if (!zone) return false;
-    if (this.player.level < zone.requiredLevel) {
-      console.warn(`Level ${zone.requiredLevel} required for ${zone.name}`);
+    const gate = this.zoneGate(zone);
+    if (gate) {
+      console.warn(gate);
       return false;
     }
+    const fastTravel = hasEffect(this.player.inventory, "fast_travel");
+    const { layout } = zone;
+    // Fast travel always lands at the centre; otherwise only a player standing
+    // outside the zone is moved, so walking on doesn't re-enter the zone underfoot.
+    const { x, y } = this.player.position;
+    const arrived = layout && (fastTravel || this.zoneAtPoint(x, y)?.id !== zone.id);
+    if (arrived) this.player.position = { x: layout.x, y: layout.y, z: 0 };
     this.player.current_zone = zoneId;
-    this.emit({ type: "zone_enter", zone });
+    this.emit({ type: "zone_enter", zone, fast_travel: fastTravel });
+    if (arrived) this.updateProximity();
+    return true;
+  }
+
+  /**
+   * Why a zone is closed to the player, or null when it may be entered.
+   * Zones unlocked through dialogue skip the clear-based gate, not the level.
+   */
+  zoneGate(zone: Zone): string | null {
+    if (this.player.level < zone.requiredLevel) return `Level ${zone.requiredLevel} required for ${zone.name}`;
+    if (this.getZoneProgress(zone.id).unlocked) return null;
+    const blocked = (zone.requiresCleared ?? []).filter(id => !this.isZoneCleared(id));
+    if (blocked.length) return `Clear ${blocked.join(", ")} before entering ${zone.name}`;
+    return null;
+  }
+
+  getZoneProgress(zoneId: string): Readonly<ZoneProgress> {
+    return this.player.zones[zoneId] ?? emptyProgress();
+  }
+
+  /** A zone is cleared once its guardian has been defeated. */
+  isZoneCleared(zoneId: string): boolean {
+    return this.getZoneProgress(zoneId).guardian_defeated;
+  }
+
+  isChapterUnlocked(chapter: string): boolean {
+    return this.player.chapters_unlocked.includes(chapter);
+  }
+
+  /** Visible achievements with their progress; hidden ones only once unlocked. */
+  getAchievements(): AchievementStatus[] {
+    return listAchievements(this.player.achievements, this.achievements);
+  }
+
+  getAchievementPoints(): number {
+    return achievementPoints(this.player.achievements, this.achievements);
+  }
+
+  // ── Movement ──
+
+  getPosition(): Readonly<PlayerState["position"]> { return this.player.position; }
+
+  /**
+   * Walk the player to a point on the world map. Stepping into a zone's
+   * circle enters it, stepping out of every circle fires `zone_exit`, and
+   * proximity triggers fire as they are passed. Refused (returning false,
+   * without moving) into a zone the player can't enter yet or mid-battle.
+   */
+  moveTo(x: number, y: number, z = this.player.position.z): boolean {
+    if (this.battle) {
+      console.warn(`Cannot move while battling ${this.battle.enemy.name}`);
+      return false;
+    }
+    const left = this.zoneAtPoint(this.player.position.x, this.player.position.y);
+    const reached = this.zoneAtPoint(x, y);
+    const entering = reached && reached.id !== left?.id;
+    if (entering && reached.id !== this.player.current_zone) {
+      const gate = this.zoneGate(reached);
+      if (gate) {
+        console.warn(gate);
+        return false;
+      }
+    }
+    this.player.position = { x, y, z };
+    if (left && left.id !== reached?.id) this.emit({ type: "zone_exit", zone: left });
+    if (entering) {
+      this.player.current_zone = reached.id;
+      this.emit({ type: "zone_enter", zone: reached, fast_travel: false });
+    }
+    this.updateProximity();
     return true;
   }
 
+  /**
+   * Start walking to a zone along the shortest route through zones the
+   * player may enter; world ticks move them. Returns null if there is none.
+   */
+  travelTo(zoneId: string): NavRoute | null {
+    const zone = this.content.getZone(zoneId);
+    if (!zone) return null;
+    const gate = this.zoneGate(zone);
+    if (gate) {
+      console.warn(gate);
+      return null;
+    }
+    const { x, y } = this.player.position;
+    const from = zoneAt(x, y, this.content)?.id ?? this.player.current_zone;
+    const blocked = this.content.getMapZones().filter(z => this.zoneGate(z)).map(z => z.id);
+    const route = navGraphFor(this.content).findPath(from, zoneId, { blocked });
+    if (!route) {
+      console.warn(`No route to ${zone.name}`);
+      return null;
+    }
+    if (this.travel) this.endTravel(false);
+    this.travel = { zone, route, next: 0 };
+    this.emit({ type: "travel_start", zone, route });
+    return route;
+  }
+
+  getTravel(): Readonly<NavRoute> | null { return this.travel?.route ?? null; }
+
+  cancelTravel(): boolean {
+    if (!this.travel) return false;
+    this.endTravel(false);
+    return true;
+  }
+
+  /** One tick of walking; paused during battles, stopped by a zone the player can't enter. */
+  private travelStep() {
+    const travel = this.travel!;
+    if (this.battle) return;
+    let budget = TRAVEL_SPEED / this.tickRate;
+    let { x, y } = this.player.position;
+    while (budget > 0 && travel.next < travel.route.waypoints.length) {
+      const target = travel.route.waypoints[travel.next];
+      const dist = Math.hypot(target.x - x, target.y - y);
+      if (dist <= budget) {
+        ({ x, y } = target);
+        budget -= dist;
+        travel.next++;
+      } else {
+        x += (target.x - x) / dist * budget;
+        y += (target.y - y) / dist * budget;
+        budget = 0;
+      }
+    }
+    if (!this.moveTo(x, y)) this.endTravel(false);
+    else if (travel.next >= travel.route.waypoints.length) this.endTravel(true);
+  }
+
+  private endTravel(arrived: boolean) {
+    const { zone } = this.travel!;
+    this.travel = null;
+    this.emit({ type: "travel_end", zone, arrived });
+  }
+
+  /** Fire `proximity_enter` and `proximity_exit` when the player is near an encounter. */
+  addProximityTrigger(trigger: ProximityTrigger): void {
+    if (!this.content.findEncounter(trigger.encounter)) throw new Error(`Unknown encounter "${trigger.encounter}"`);
+    if (!(trigger.radius >= 0)) throw new Error(`Invalid trigger radius ${trigger.radius}`);
+    this.triggers.add(trigger);
+  }
+
+  removeProximityTrigger(id: string): boolean {
+    return this.triggers.remove(id);
+  }
+
+  /** Every trigger, including those added automatically for guardians and wild encounters. */
+  getProximityTriggers(): ProximityTrigger[] {
+    this.syncZoneTriggers();
+    return this.triggers.list();
+  }
+
+  private zoneAtPoint(x: number, y: number): Zone | undefined {
+    const layout = zoneAt(x, y, this.content);
+    return layout && this.content.getZone(layout.id);
+  }
+
+  /** One trigger per zone guardian and, unless turned off, one battle trigger per encounter spot. */
+  private syncZoneTriggers(): void {
+    for (const zone of this.content.getMapZones()) {
+      const id = `guardian-${zone.id}`;
+      const encounter = getGuardianEncounter(zone);
+      if (!encounter || this.triggers.has(id)) continue;
+      const { x, y } = zone.layout!;
+      this.triggers.add({ id, x, y, radius: GUARDIAN_TRIGGER_RADIUS, encounter: encounter.id });
+    }
+    if (!this.encounterTriggers) return;
+    for (const zone of this.content.getMapZones()) {
+      for (const { encounter, x, y } of encounterSpots(zone)) {
+        const id = `encounter-${encounter}`;
+        if (!this.triggers.has(id)) this.triggers.add({ id, x, y, radius: ENCOUNTER_RADIUS + PLAYER_RADIUS, encounter, battle: true });
+      }
+    }
+  }
+
+  private updateProximity(): void {
+    this.syncZoneTriggers();
+    const { entered, exited } = this.triggers.update(this.player.position.x, this.player.position.y);
+    for (const trigger of exited) {
+      const encounter = this.content.findEncounter(trigger.encounter);
+      if (encounter) this.emit({ type: "proximity_exit", trigger, encounter });
+    }
+    for (const trigger of entered) {
+      const encounter = this.content.findEncounter(trigger.encounter);
+      if (encounter) this.emit({ type: "proximity_enter", trigger, encounter });
+      if (encounter && trigger.battle) void this.touchEncounter(encounter.id);
+    }
+  }
+
+  // ── Endless zones ──
+
+  /** Id of the next procedural zone once the final zone (or the deepest generated one) is cleared. */
+  nextEndlessZoneId(): string | null {
+    const depth = this.player.endless?.depth ?? 0;
+    const previous = depth === 0 ? FINAL_ZONE : endlessZoneId(depth);
+    return this.isZoneCleared(previous) ? endlessZoneId(depth + 1) : null;
+  }
+
+  /** Generate the next endless zone; entering its id does this automatically. */
+  openEndlessZone(): Zone | null {
+    if (!this.nextEndlessZoneId()) return null;
+    const progress = this.player.endless ??= { seed: this.rng.int(2 ** 31), depth: 0 };
+    progress.depth += 1;
+    const zones = loadEndlessZones(this.content, progress);
+    const zone = zones[zones.length - 1];
+    this.emit({ type: "zone_generated", zone, depth: progress.depth });
+    return zone;
+  }
+
+  // ── Dialogue ──
+
+  /** Conversations the player can start with an encounter right now. */
+  getConversations(subject: string): Conversation[] {
+    return this.dialogueLibrary.available(subject, this.player);
+  }
+
+  getDialogue(): DialogueView | null {
+    const { dialogue } = this;
+    return dialogue && viewNode(this.player, dialogue.conversation, dialogue.node);
+  }
+
+  startDialogue(conversationId: string): DialogueView | null {
+    const conversation = this.dialogueLibrary.get(conversationId);
+    if (!conversation || this.battle || this.dialogue) return null;
+    const blocked = this.talkBlocker(conversation);
+    if (blocked) {
+      console.warn(blocked);
+      return null;
+    }
+    if (!meetsAll(this.player, conversation.if)) {
+      console.warn(`${conversation.speaker} has nothing to say right now`);
+      return null;
+    }
+    return this.enterNode(conversation, conversation.start);
+  }
+
+  /**
+   * Why the subject of `conversation` can't be talked to, or null when it
+   * can: it must be in the current zone and within TALK_RADIUS of the
+   * player. Guardians stand at their zone's centre, other encounters at
+   * their spots; zones off the map have no distances to check.
+   */
+  private talkBlocker(conversation: Conversation): string | null {
+    const zone = this.content.zoneOfEncounter(conversation.subject);
+    if (!zone || zone.id !== this.player.current_zone) return `${conversation.speaker} is not in this zone`;
+    if (!zone.layout) return null;
+    const spot = getGuardianEncounter(zone)?.id === conversation.subject
+      ? zone.layout
+      : encounterSpots(zone).find(s => s.encounter === conversation.subject);
+    const { x, y } = this.player.position;
+    if (spot && Math.hypot(spot.x - x, spot.y - y) > TALK_RADIUS) return `${conversation.speaker} is too far away to talk to`;
+    return null;
+  }
+
+  /**
+   * Pick a choice by its index in the node. Returns the node it leads to
+   * (its closing line if that ends the conversation), or null if the
+   * choice itself ends it.
+   */
+  chooseDialogue(index: number): DialogueView | null {
+    const view = this.getDialogue();
+    if (!view || !this.dialogue) return null;
+    if (!view.choices.some(c => c.index === index)) throw new Error(`Choice ${index} is not available`);
+    const { conversation, node } = this.dialogue;
+    const choice = conversation.nodes[node].choices![index];
+    this.applyDialogueEffects(choice.then ?? []);
+    return choice.next && !this.battle ? this.enterNode(conversation, choice.next) : this.endDialogue();
+  }
+
+  endDialogue(): null {
+    if (this.dialogue) {
+      const id = this.dialogue.conversation.id;
+      this.dialogue = null;
+      this.emit({ type: "dialogue_end", conversation: id });
+    }
+    return null;
+  }
+
+  hasFlag(flag: string): boolean {
+    return this.player.dialogue_flags.includes(flag);
+  }
+
+  private enterNode(conversation: Conversation, nodeId: string): DialogueView | null {
+    this.dialogue = { conversation, node: nodeId };
+    const view = viewNode(this.player, conversation, nodeId);
+    this.emit({ type: "dialogue", view });
+    const node = conversation.nodes[nodeId];
+    this.applyDialogueEffects(node.then ?? []);
+    // Battles end the conversation, as do nodes with nothing left to say.
+    if (this.battle || !node.choices?.length) return this.endDialogue() ?? view;
+    return this.getDialogue();
+  }
+
+  private applyDialogueEffects(effects: DialogueEffect[]) {
+    for (const effect of effects) {
+      switch (effect.kind) {
+        case "battle": {
+          const encounter = this.content.findEncounter(effect.encounter);
+          const zone = encounter && this.zoneOf(encounter);
+          if (!encounter) break;
+          const boss = effect.boss && zone && !this.isZoneCleared(zone.id) ? getGuardian(zone) : undefined;
+          const blocked = this.battleBlocker(encounter, boss);
+          if (blocked) console.warn(blocked);
+          else this.startBattle(encounter, boss);
+          break;
+        }
+        case "grant_item":
+          this.grantItem(effect.item, effect.quantity ?? 1);
+          break;
+        case "unlock_zone":
+          this.unlockZone(effect.zone);
+          break;
+        case "set_flag":
+          if (!this.hasFlag(effect.flag)) this.player.dialogue_flags.push(effect.flag);
+          break;
+      }
+    }
+  }
+
+  /** Open a zone regardless of the guardians it requires cleared. */
+  unlockZone(zoneId: string): boolean {
+    const zone = this.content.getZone(zoneId);
+    if (!zone || this.getZoneProgress(zoneId).unlocked) return false;
+    this.progressFor(zoneId).unlocked = true;
+    this.emit({ type: "zone_unlocked", zone });
+    return true;
+  }
+
+  private progressFor(zoneId: string): ZoneProgress {
+    return this.player.zones[zoneId] ??= emptyProgress();
+  }
+
+  private zoneOf(encounter: Encounter): Zone | undefined {
+    return this.content.zoneOfEncounter(encounter.id);
+  }
+
+  /** Advance world time, which drives spawn cooldowns, time-of-day and travel. */
+  tick(count = 1): void {
+    for (let i = 0; i < count && this.travel; i++) this.travelStep();
+    this.ticks += count;
+  }
+  getTick(): number { return this.ticks; }
+
+  /** Advance world time by `dt` simulated seconds at `tickRate` ticks per second. */
+  advance(dt: number): void {
+    this.tickCarry += dt * this.tickRate;
+    const whole = Math.floor(this.tickCarry + 1e-9);
+    this.tickCarry -= whole;
+    if (whole) this.tick(whole);
+  }
+
+  /** Let a shared clock drive world time. */
+  start(clock: SimClock): void {
+    this.stop();
+    this.running = true;
+    this.detachClock = clock.onStep(dt => this.advance(dt));
+  }
+
+  stop(): void {
+    this.detachClock?.();
+    this.detachClock = null;
+    this.running = false;
+  }
+
+  isRunning(): boolean { return this.running; }
+
+  private spawnContext(zone: Zone): SpawnContext {
+    // The guardian's champion only roams the wild once it has been beaten as a boss.
+    const guardian = this.isZoneCleared(zone.id) ? undefined : getGuardianEncounter(zone);
+    return {
+      playerLevel: this.player.level,
+      tick: this.ticks,
+      captured: this.player.agents_captured,
+      lastSpawned: this.lastSpawned,
+      excluded: [
+        ...(guardian ? [guardian.id] : []),
+        ...zone.encounters.filter(e => e.id !== guardian?.id && this.locks.isHeld(e.id)).map(e => e.id),
+      ],
+    };
+  }
+
+  /** Effective spawn probabilities in a zone (default: current), for tuning and debugging. */
+  getSpawnOdds(zoneId = this.player.current_zone): SpawnOdds[] {
+    const zone = this.content.getZone(zoneId);
+    return zone ? getSpawnTable(zone).odds(this.spawnContext(zone)) : [];
+  }
+
+  /** Whether any party agent can still fight; battles need one. */
+  hasConsciousAgent(): boolean {
+    return this.player.party.some(a => a.hp > 0);
+  }
+
+  /**
+   * Meet an encounter in the current zone and battle it: `encounterId` if
+   * given, else one rolled from the spawn table. Null when nothing is met,
+   * including when the requested one isn't in the zone or is excluded from
+   * spawning, like an uncleared guardian or an encounter locked elsewhere.
+   */
   async triggerEncounter(encounterId?: string): Promise<Encounter | null> {
     const zone = this.getCurrentZone();
-    if (!zone) return null;
-    const eligibleEncounters = zone.encounters.filter(
-      e => !this.player.agents_captured.includes(e.id)
-    );
-    if (!eligibleEncounters.length) return null;
+    if (!zone || this.battle) return null;
+    if (!this.hasConsciousAgent()) {
+      console.warn("No conscious agent in the party");
+      return null;
+    }
+    const ctx = this.spawnContext(zone);
     const encounter = encounterId
-      ? zone.encounters.find(e => e.id === encounterId) ?? eligibleEncounters[0]
-      : eligibleEncounters[Math.floor(Math.random() * eligibleEncounters.length)];
-    this.emit({ type: "encounter", encounter });
+      ? zone.encounters.find(e => e.id === encounterId && !ctx.excluded?.includes(e.id))
+      : getSpawnTable(zone).roll(ctx, this.rng);
+    if (!encounter) return null;
+    this.lastSpawned[encounter.id] = this.ticks;
+    this.emit({ type: "encounter", encounter, intel: this.inspectEncounter(encounter) });
+    this.startBattle(encounter);
     return encounter;
   }
 
-  async captureAgent(encounter: Encounter): Promise<boolean> {
-    const captureChance = 0.5 + (this.player.level - encounter.level) * 0.1;
-    if (Math.random() > Math.max(0.1, Math.min(0.95, captureChance))) return false;
-    const captured: CapturedAgent = {
-      id: encounter.id, name: encounter.agentName, type: encounter.type,
-      level: encounter.level, moves: encounter.moves,
-      hp: encounter.level * 15, max_hp: encounter.level * 15,
+  /**
+   * The player walked into an encounter on the map: battle it if it could
+   * spawn in the current zone right now. Captured, cooling-down and locked
+   * encounters, and those out of their conditions, are walked past.
+   */
+  async touchEncounter(encounterId: string): Promise<Encounter | null> {
+    const zone = this.getCurrentZone();
+    if (!zone || this.battle) return null;
+    const odds = getSpawnTable(zone).odds(this.spawnContext(zone)).find(o => o.encounter.id === encounterId);
+    if (!odds || odds.blocked) return null;
+    return this.triggerEncounter(encounterId);
+  }
+
+  /** Full encounter stats, or null unless an item reveals them. */
+  inspectEncounter(encounter: Encounter): EncounterIntel | null {
+    if (!hasEffect(this.player.inventory, "reveal_encounters")) return null;
+    return {
+      type: encounter.type,
+      level: encounter.level,
+      difficulty: encounter.difficulty,
+      max_hp: maxHpForLevel(encounter.level),
+      moves: encounter.moves.map(m => getMove(m)!),
+      weaknesses: (Object.keys(TYPE_CHART) as EncounterType[]).filter(t => TYPE_CHART[t][encounter.type] > 1),
     };
-    this.player.agents_captured.push(encounter.id);
-    if (this.player.party.length < 6) this.player.party.push(captured);
-    this.emit({ type: "capture", agent: captured });
+  }
+
+  /** Challenge the current zone's guardian once its other encounters are captured. */
+  challengeGuardian(): Battle | null {
+    const zone = this.getCurrentZone();
+    const guardian = zone && getGuardian(zone);
+    const encounter = zone && getGuardianEncounter(zone);
+    if (!zone || !guardian || !encounter || this.battle || this.isZoneCleared(zone.id)) return null;
+    const blocked = this.battleBlocker(encounter, guardian);
+    if (blocked) {
+      console.warn(blocked);
+      return null;
+    }
+    return this.startBattle(encounter, guardian);
+  }
+
+  /**
+   * Why `encounter` can't be fought right now, or null when it can. It must
+   * belong to the current zone, and a zone's guardian is only fought with a
+   * boss script until beaten, once the zone's other encounters are captured;
+   * no other encounter takes a boss script.
+   */
+  battleBlocker(encounter: Encounter, boss?: BossScript): string | null {
+    if (this.battle) return `Already battling ${this.battle.enemy.name}`;
+    if (!this.hasConsciousAgent()) return "No conscious agent in the party";
+    const zone = this.zoneOf(encounter);
+    if (!zone || zone.id !== this.player.current_zone) return `${encounter.name} is not in this zone`;
+    const gate = this.zoneGate(zone);
+    if (gate) return gate;
+    const guardian = !this.isZoneCleared(zone.id) && getGuardianEncounter(zone)?.id === encounter.id;
+    if (!guardian && boss) return `${encounter.name} is not a guardian to challenge`;
+    if (guardian && !boss) return `${zone.guardian} must be challenged as the zone's guardian`;
+    if (guardian) {
+      const pending = zone.encounters.filter(e => e.id !== encounter.id && !this.player.agents_captured.includes(e.id));
+      if (pending.length) return `Capture ${pending.map(e => e.name).join(", ")} before challenging ${zone.guardian}`;
+    }
+    if (this.locks.isHeld(encounter.id)) return `${encounter.name} is already in battle elsewhere`;
+    return null;
+  }
+
+  /**
+   * Fight `encounter` now, holding its lock until the battle is resolved;
+   * throws the reason from battleBlocker() when it can't be fought.
+   */
+  startBattle(encounter: Encounter, boss?: BossScript): Battle {
+    const blocked = this.battleBlocker(encounter, boss);
+    if (blocked) throw new Error(blocked);
+    if (!this.locks.acquire(encounter.id)) throw new Error(`${encounter.name} is already in battle elsewhere`);
+    const { stats } = this.player;
+    this.battle = new Battle(encounter, this.player.party, {
+      playerLevel: this.player.level,
+      rng: this.rng,
+      captureBonus: stats.reason * 0.02 + leadCaptureBonus(this.getLeadAgent(), encounter),
+      damageScale: 1 + stats.compute * 0.05,
+      boss,
+    });
+    this.emit({ type: "battle_start", encounter });
+    return this.battle;
+  }
+
+  getBattle(): Battle | null { return this.battle; }
+
+  async battleAction(action: BattleAction): Promise<BattleOutcome> {
+    const battle = this.battle;
+    if (!battle) throw new Error("No battle in progress");
+    const log = battle.act(action);
+    this.emit({ type: "battle_turn", encounter: battle.enemy, log });
+    const zone = this.zoneOf(battle.enemy);
+    for (const entry of log) {
+      if (entry.kind === "phase" && zone) this.emit({ type: "guardian_phase", zone, phase: entry.phase, text: entry.text });
+    }
+    const outcome = battle.getOutcome();
+    if (outcome !== "ongoing") await this.resolveBattle(battle, outcome);
+    return outcome;
+  }
+
+  private async resolveBattle(battle: Battle, outcome: BattleOutcome) {
+    this.battle = null;
+    const encounter = battle.enemy;
+    this.locks.release(encounter.id);
+    switch (outcome) {
+      case "win":
+        this.emit({ type: "battle_win", encounter, xp_gained: encounter.xpReward });
+        this.shareAgentXp(battle, encounter.xpReward);
+        await this.gainXP(encounter.xpReward);
+        if (battle.isBoss()) this.defeatGuardian(encounter);
+        break;
+      case "captured":
+        this.shareAgentXp(battle, encounter.xpReward);
+        await this.recordCapture(encounter, battle.getEnemyHp());
+        break;
+      case "lose":
+        this.emit({ type: "battle_lose", encounter });
+        break;
+      case "fled":
+        this.emit({ type: "battle_flee", encounter });
+        break;
+    }
+  }
+
+  /** Split battle XP between the conscious agents that took part. */
+  private shareAgentXp(battle: Battle, amount: number) {
+    const earners = battle.getParticipants().filter(a => a.hp > 0);
+    if (!earners.length) return;
+    const share = Math.floor(amount / earners.length);
+    for (const agent of earners) {
+      for (const step of awardAgentXp(agent, share, this.content)) {
+        switch (step.kind) {
+          case "level_up":
+            this.emit({ type: "agent_level_up", agent, new_level: step.level });
+            break;
+          case "move_learned":
+            this.emit({ type: "move_learned", agent, move: step.move, forgotten: step.forgotten });
+            break;
+          case "evolved":
+            this.emit({ type: "agent_evolved", agent, from: step.from, into: step.into });
+            break;
+        }
+      }
+    }
+  }
+
+  /**
+   * Attempt a capture as a battle action. Outside a battle this first meets
+   * `encounter` as triggerEncounter() would; returns false without acting
+   * when it can't be met or another encounter is being battled.
+   */
+  async captureAgent(encounter: Encounter): Promise<boolean> {
+    if (!this.battle) {
+      const blocked = this.battleBlocker(encounter);
+      if (blocked) {
+        console.warn(blocked);
+        return false;
+      }
+      await this.triggerEncounter(encounter.id);
+    }
+    if (this.battle?.enemy.id !== encounter.id) {
+      console.warn(`Not battling ${encounter.name}`);
+      return false;
+    }
+    return (await this.battleAction({ kind: "capture" })) === "captured";
+  }
+
+  private async recordCapture(encounter: Encounter, hp: number) {
+    const captured = createCapturedAgent(encounter, hp, this.uniqueAgentId(encounter.id));
+    const stored = this.player.party.length >= MAX_PARTY_SIZE;
+    if (!this.player.agents_captured.includes(encounter.id)) this.player.agents_captured.push(encounter.id);
+    (stored ? this.player.box : this.player.party).push(captured);
+    this.emit({ type: "capture", agent: captured, stored });
+    const zone = this.zoneOf(encounter);
+    const progress = zone && this.progressFor(zone.id);
+    if (progress && !progress.captured.includes(encounter.id)) progress.captured.push(encounter.id);
     await this.gainXP(encounter.xpReward);
+  }
+
+  /** Repeatable encounters can be captured more than once; later copies get a numbered id. */
+  private uniqueAgentId(base: string): string {
+    const taken = new Set([...this.player.party, ...this.player.box].map(a => a.id));
+    let id = base;
+    for (let n = 2; taken.has(id); n++) id = `${base}#${n}`;
+    return id;
+  }
+
+  /** Defeating a guardian clears its zone and grants the zone reward. */
+  private defeatGuardian(encounter: Encounter) {
+    const zone = this.zoneOf(encounter);
+    if (!zone) return;
+    this.progressFor(zone.id).guardian_defeated = true;
+    this.emit({ type: "guardian_defeated", zone });
+    this.emit({ type: "zone_complete", zone });
+    this.grantItem(zone.rewardItem);
+  }
+
+  grantItem(itemId: string, quantity = 1): void {
+    const item = getItem(itemId);
+    if (!item) throw new Error(`Unknown item "${itemId}"`);
+    addItem(this.player.inventory, itemId, quantity);
+    applyStatBoosts(this.player.stats, item, quantity);
+    this.emit({ type: "item_acquired", item, quantity });
+    for (const effect of item.effects) {
+      if (effect.kind !== "unlock_chapter" || this.isChapterUnlocked(effect.chapter)) continue;
+      this.player.chapters_unlocked.push(effect.chapter);
+      this.emit({ type: "chapter_unlocked", chapter: effect.chapter });
+    }
+  }
+
+  /** Use a consumable; `partyIndex` picks the target agent for healing items. */
+  useItem(itemId: string, partyIndex = 0): boolean {
+    const item = getItem(itemId);
+    if (!item?.consumable || countItem(this.player.inventory, itemId) === 0) return false;
+    const target = this.player.party[partyIndex];
+    const heals = item.effects.filter(e => e.kind === "heal");
+    if (heals.length && !target) return false;
+    removeItem(this.player.inventory, itemId);
+    for (const effect of heals) target.hp = Math.min(target.max_hp, target.hp + effect.amount);
+    this.emit({ type: "item_used", item, target });
     return true;
   }
 
+  getLeadAgent(): CapturedAgent | undefined {
+    return getLeadAgent(this.player.party);
+  }
+
+  private assertNoBattle() {
+    if (this.battle) throw new Error("Cannot change the party during a battle");
+  }
+
+  private partyChanged(change: PartyChange, agent: CapturedAgent) {
+    this.emit({ type: "party_change", change, agent, party: this.player.party });
+  }
+
+  /** Exchange a party slot with an agent from the box. */
+  swapPartyAgent(partyIndex: number, boxAgentId: string): boolean {
+    this.assertNoBattle();
+    const { party, box } = this.player;
+    const boxIndex = box.findIndex(a => a.id === boxAgentId);
+    if (!party[partyIndex] || boxIndex === -1) return false;
+    [party[partyIndex], box[boxIndex]] = [box[boxIndex], party[partyIndex]];
+    this.partyChanged("swap", party[partyIndex]);
+    return true;
+  }
+
+  /** Move a party agent to a new slot; slot 0 makes it the lead. */
+  reorderParty(from: number, to: number): boolean {
+    this.assertNoBattle();
+    const { party } = this.player;
+    if (!party[from] || to < 0 || to >= party.length) return false;
+    const [agent] = party.splice(from, 1);
+    party.splice(to, 0, agent);
+    this.partyChanged("reorder", agent);
+    return true;
+  }
+
+  depositAgent(partyIndex: number): boolean {
+    this.assertNoBattle();
+    const { party, box } = this.player;
+    if (!party[partyIndex] || party.length === 1) return false;
+    const [agent] = party.splice(partyIndex, 1);
+    box.push(agent);
+    this.partyChanged("deposit", agent);
+    return true;
+  }
+
+  withdrawAgent(agentId: string): boolean {
+    this.assertNoBattle();
+    const { party, box } = this.player;
+    const index = box.findIndex(a => a.id === agentId);
+    if (index === -1 || party.length >= MAX_PARTY_SIZE) return false;
+    const [agent] = box.splice(index, 1);
+    party.push(agent);
+    this.partyChanged("withdraw", agent);
+    return true;
+  }
+
+  /** Release an agent from the box or party; the last party agent cannot be released. */
+  releaseAgent(agentId: string): boolean {
+    this.assertNoBattle();
+    const { party, box } = this.player;
+    const boxIndex = box.findIndex(a => a.id === agentId);
+    const partyIndex = party.findIndex(a => a.id === agentId);
+    let agent: CapturedAgent;
+    if (boxIndex !== -1) [agent] = box.splice(boxIndex, 1);
+    else if (partyIndex !== -1 && party.length > 1) [agent] = party.splice(partyIndex, 1);
+    else return false;
+    this.partyChanged("release", agent);
+    return true;
+  }
+
+  healParty(): void {
+    for (const agent of this.player.party) agent.hp = agent.max_hp;
+  }
+
   private async gainXP(amount: number) {
     this.player.xp += amount;
-    const xpNeeded = this.player.level * 100;
-    if (this.player.xp >= xpNeeded) {
+    for (;;) {
+      const xpNeeded = playerXpToNext(this.player.level, this.xpTable);
+      if (this.player.xp < xpNeeded) break;
       this.player.xp -= xpNeeded;
       this.player.level += 1;
       this.emit({ type: "level_up", new_level: this.player.level });
@@ -113,7 +986,7 @@ export class GameLoop {
   }
 
   getPlayerState(): Readonly<PlayerState> { return this.player; }
-  getZones(): Zone[] { return ZONES; }
+  getZones(): Zone[] { return this.content.getZones(); }
 }
 
 export default GameLoop;
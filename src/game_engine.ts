@@ -1,7 +1,26 @@
 /**
  * BlackRoad Interactive — World Engine
+ * The world map, read from the zone content registry, and the entity world:
+ * guardians, the player, encounters, artifacts and NPCs as ECS entities
+ * updated by systems each tick.
  */
+import { World } from "./ecs.js";
+import type { ComponentName, Components, EntityKind, EntityRow, System } from "./ecs.js";
+import type { SimClock } from "./clock.js";
+import { SpatialGrid } from "./spatial.js";
+import type { SpatialHit } from "./spatial.js";
+import { SNAPSHOT_FORMAT, applyDelta } from "./world-snapshot.js";
+import type { WorldDelta, WorldSnapshot } from "./world-snapshot.js";
+import { contentRegistry } from "./levels/index.js";
+import type { Zone } from "./levels/index.js";
+import type { ContentRegistry } from "./content.js";
+import { getGuardianEncounter } from "./guardians.js";
+import { navGraphFor } from "./nav.js";
+import type { NavRoute } from "./nav.js";
+import { CollisionWorld } from "./collision.js";
+import type { CollisionEvent, CollisionReport } from "./collision.js";
 
+/** A zone as the world map sees it, flattened from the content registry. */
 export interface WorldZone {
   id: string;
   name: string;
@@ -12,44 +31,349 @@ export interface WorldZone {
   radius: number;
 }
 
-export const WORLD_ZONES: WorldZone[] = [
-  { id: "recursion-depths",    name: "Recursion Depths",    agent: "LUCIDIA", color: 0xff0066, x: 0,   y: 0,   radius: 400 },
-  { id: "gateway-nexus",       name: "Gateway Nexus",       agent: "ALICE",   color: 0x2979ff, x: 500, y: 0,   radius: 300 },
-  { id: "compute-forge",       name: "Compute Forge",       agent: "OCTAVIA", color: 0x00e676, x: -500,y: 0,   radius: 350 },
-  { id: "crystal-observatory", name: "Crystal Observatory", agent: "PRISM",   color: 0xf5a623, x: 0,   y: 500, radius: 280 },
-  { id: "archive-sanctum",     name: "Archive Sanctum",     agent: "ECHO",    color: 0x9c27b0, x: 0,   y: -500,radius: 320 },
-  { id: "vault-terminus",      name: "Vault Terminus",      agent: "CIPHER",  color: 0x212121, x: 350, y: 350, radius: 260 },
-];
+interface MapIndex {
+  /** The registry's zones this was built from; a new array means the content changed. */
+  source: readonly Zone[];
+  zones: WorldZone[];
+  grid: SpatialGrid<WorldZone>;
+}
+
+const mapIndexes = new WeakMap<ContentRegistry, MapIndex>();
+
+/** Map view and spatial grid of a registry's zones, rebuilt after it changes. */
+function mapIndex(content: ContentRegistry): MapIndex {
+  let index = mapIndexes.get(content);
+  if (index?.source !== content.getZones()) {
+    const source = content.getZones();
+    const zones = content.getMapZones().map(z => ({
+      id: z.id, name: z.name, agent: z.guardian, color: parseInt(z.color.slice(1), 16),
+      x: z.layout!.x, y: z.layout!.y, radius: z.layout!.radius,
+    }));
+    const grid = new SpatialGrid<WorldZone>(250);
+    for (const zone of zones) grid.set(zone.id, zone, zone);
+    mapIndexes.set(content, (index = { source, zones, grid }));
+  }
+  return index;
+}
+
+/** Zones on the world map. The array is replaced, never mutated, when content changes. */
+export function worldZones(content: ContentRegistry = contentRegistry): readonly WorldZone[] {
+  return mapIndex(content).zones;
+}
+
+/** Player collider radius in the world. */
+export const PLAYER_RADIUS = 10;
+
+/** Collider radius of a wild encounter; a player touching one battles it. */
+export const ENCOUNTER_RADIUS = 15;
+
+/**
+ * Where a map zone's wild encounters stand: spaced evenly round a circle
+ * halfway between its centre and its edge. The guardian, which circles the
+ * centre as an agent, has no spot.
+ */
+export function encounterSpots(zone: Zone): { encounter: string; x: number; y: number }[] {
+  if (!zone.layout) return [];
+  const { x, y, radius } = zone.layout;
+  const guardian = getGuardianEncounter(zone)?.id;
+  const wild = zone.encounters.filter(e => e.id !== guardian);
+  return wild.map((e, i) => {
+    const angle = (2 * Math.PI * i) / wild.length;
+    return { encounter: e.id, x: x + Math.cos(angle) * radius / 2, y: y + Math.sin(angle) * radius / 2 };
+  });
+}
+
+/**
+ * The shared registry's map zones, refreshed whenever a pack loads.
+ * @deprecated Use worldZones(), which also reads a game's own registry.
+ */
+export let WORLD_ZONES: readonly WorldZone[] = worldZones();
+contentRegistry.onChange(() => { WORLD_ZONES = worldZones(); });
+
+// ── Systems ──
+
+/** Guardians idle in a slow circle around their zone centre. */
+export const orbitSystem: System = {
+  name: "orbit",
+  run(world, { dt }) {
+    for (const { id, transform, orbit } of world.query(["transform", "orbit"])) {
+      if (world.has(id, "travel")) continue;
+      orbit.angle += orbit.speed * dt;
+      transform.x = orbit.cx + Math.cos(orbit.angle) * orbit.radius;
+      transform.y = orbit.cy + Math.sin(orbit.angle) * orbit.radius;
+    }
+  },
+};
+
+/** Entities with a travel plan walk its waypoints; orbiting ones circle wherever they arrive. */
+export const travelSystem: System = {
+  name: "travel",
+  run(world, { dt }) {
+    for (const { id, transform, travel } of world.query(["transform", "travel"])) {
+      let budget = travel.speed * dt;
+      while (budget > 0 && travel.next < travel.waypoints.length) {
+        const target = travel.waypoints[travel.next];
+        const dist = Math.hypot(target.x - transform.x, target.y - transform.y);
+        if (dist <= budget) {
+          transform.x = target.x;
+          transform.y = target.y;
+          budget -= dist;
+          travel.next++;
+        } else {
+          transform.x += (target.x - transform.x) / dist * budget;
+          transform.y += (target.y - transform.y) / dist * budget;
+          budget = 0;
+        }
+      }
+      if (travel.next < travel.waypoints.length) continue;
+      world.remove(id, "travel");
+      const orbit = world.get(id, "orbit");
+      if (orbit) {
+        orbit.cx = transform.x - Math.cos(orbit.angle) * orbit.radius;
+        orbit.cy = transform.y - Math.sin(orbit.angle) * orbit.radius;
+      }
+    }
+  },
+};
+
+export const movementSystem: System = {
+  name: "movement",
+  run(world, { dt }) {
+    for (const { transform, velocity } of world.query(["transform", "velocity"])) {
+      transform.x += velocity.x * dt;
+      transform.y += velocity.y * dt;
+      transform.z += velocity.z * dt;
+    }
+  },
+};
+
+/**
+ * Entities with a collider and transform are kept apart (those with a
+ * velocity also bounce); `onReport` hears which pairs met or parted.
+ */
+export function collisionSystem(collisions: CollisionWorld, onReport: (report: CollisionReport) => void): System {
+  return {
+    name: "collision",
+    run(world) {
+      const bodies = world.query(["transform", "collider"]).map(({ id, transform, collider }) => ({
+        id, position: transform, velocity: world.get(id, "velocity"), collider,
+      }));
+      onReport(collisions.step(bodies));
+    },
+  };
+}
+
+/** The zone whose circle contains a point; the nearest centre wins where circles overlap. */
+export function zoneAt(x: number, y: number, content: ContentRegistry = contentRegistry): WorldZone | undefined {
+  return mapIndex(content).grid.queryPoint(x, y)[0]?.data;
+}
+
+/** Zones whose circle overlaps the given one, nearest centre first. */
+export function zonesNear(x: number, y: number, radius: number, content: ContentRegistry = contentRegistry): WorldZone[] {
+  return mapIndex(content).grid.queryCircle(x, y, radius).map(hit => hit.data);
+}
+
+export function zoneMembershipSystem(content: ContentRegistry = contentRegistry): System {
+  return {
+    name: "zone-membership",
+    run(world) {
+      for (const { transform, zone } of world.query(["transform", "zone"])) {
+        zone.zone = zoneAt(transform.x, transform.y, content)?.id ?? null;
+      }
+    },
+  };
+}
 
 export class WorldEngine {
-  private entities = new Map<string, {id:string,type:string,x:number,y:number,agentId?:string}>();
+  readonly world = new World();
   private tick = 0;
+  private syncedZones: readonly WorldZone[] = [];
+  private previous = new Map<string, { x: number; y: number; z: number }>();
+  private detachClock: (() => void) | null = null;
+  private spatial = new SpatialGrid<EntityKind>(100);
+  private collisions = new CollisionWorld();
+  private collisionListeners: ((event: CollisionEvent) => void)[] = [];
 
-  constructor() {
-    for (const z of WORLD_ZONES) {
-      this.entities.set(`agent-${z.agent.toLowerCase()}`, {
-        id: `agent-${z.agent.toLowerCase()}`, type: "agent",
-        x: z.x, y: z.y, agentId: z.agent
-      });
+  constructor(readonly content: ContentRegistry = contentRegistry) {
+    this.world.addSystem(orbitSystem);
+    this.world.addSystem(travelSystem);
+    this.world.addSystem(movementSystem);
+    this.world.addSystem(collisionSystem(this.collisions, report => this.reportCollisions(report)));
+    this.world.addSystem(zoneMembershipSystem(content));
+    this.syncZones();
+  }
+
+  getZones(): readonly WorldZone[] { return worldZones(this.content); }
+
+  /**
+   * One guardian agent per zone and an encounter entity with a trigger
+   * collider on each encounter spot, including zones added after construction.
+   */
+  private syncZones(): void {
+    const zones = worldZones(this.content);
+    for (const z of zones) {
+      const id = `agent-${z.agent.toLowerCase()}`;
+      if (this.world.exists(id)) continue;
+      this.world.spawn("agent", {
+        transform: { x: z.x, y: z.y, z: 0, rotation: 0 },
+        orbit: { cx: z.x, cy: z.y, radius: 20, speed: 0.6, angle: 0 },
+        zone: { zone: z.id },
+        agent: { agentId: z.agent, name: z.agent },
+        render: { key: id, visible: true },
+      }, id);
+    }
+    for (const zone of this.content.getMapZones()) {
+      for (const spot of encounterSpots(zone)) {
+        const id = `encounter-${spot.encounter}`;
+        if (this.world.exists(id)) continue;
+        this.world.spawn("encounter", {
+          transform: { x: spot.x, y: spot.y, z: 0, rotation: 0 },
+          zone: { zone: zone.id },
+          agent: { agentId: spot.encounter, name: zone.encounters.find(e => e.id === spot.encounter)!.name },
+          render: { key: id, visible: true },
+          collider: { shape: { kind: "sphere", radius: ENCOUNTER_RADIUS }, trigger: true },
+        }, id);
+      }
     }
+    this.syncedZones = zones;
+    this.reindex();
   }
 
-  update(): void {
+  spawn(kind: EntityKind, components: Partial<Components> = {}, id?: string): string {
+    const spawned = this.world.spawn(kind, components, id);
+    const transform = components.transform;
+    if (transform) this.spatial.set(spawned, { x: transform.x, y: transform.y, radius: 0 }, kind);
+    return spawned;
+  }
+
+  despawn(id: string): boolean {
+    this.spatial.remove(id);
+    return this.world.despawn(id);
+  }
+
+  query<K extends ComponentName>(names: K[], kind?: EntityKind): EntityRow<K>[] {
+    return this.world.query(names, kind);
+  }
+
+  getTick(): number { return this.tick; }
+
+  /** Advance one tick of `dt` seconds and run every system. */
+  update(dt = 1 / 60): void {
     this.tick++;
-    for (const [, e] of this.entities) {
-      if (e.type === "agent") {
-        const zone = WORLD_ZONES.find(z => z.agent === e.agentId);
-        if (zone) {
-          const a = this.tick * 0.01;
-          e.x = zone.x + Math.cos(a) * 20;
-          e.y = zone.y + Math.sin(a) * 20;
-        }
-      }
+    if (this.syncedZones !== worldZones(this.content)) this.syncZones();
+    this.previous.clear();
+    for (const { id, transform } of this.world.query(["transform"])) {
+      this.previous.set(id, { x: transform.x, y: transform.y, z: transform.z });
     }
+    this.world.step({ tick: this.tick, dt });
+    this.reindex();
+  }
+
+  /**
+   * Send an entity from the zone it stands in to another one, over the
+   * following updates. Returns the route, or null if there is none.
+   */
+  travel(id: string, zoneId: string, { speed = 40, blocked }: { speed?: number; blocked?: Iterable<string> } = {}): NavRoute | null {
+    const transform = this.world.get(id, "transform");
+    if (!transform) throw new Error(`Entity "${id}" has no transform`);
+    const from = zoneAt(transform.x, transform.y, this.content);
+    const route = from ? navGraphFor(this.content).findPath(from.id, zoneId, { blocked }) : null;
+    if (!route) return null;
+    this.world.set(id, "travel", { waypoints: route.waypoints.map(p => ({ ...p })), next: 0, speed });
+    return route;
+  }
+
+  /**
+   * Entities with a transform within `radius` of (x, y), nearest first.
+   * Positions are as of the last update, or spawn for newer entities.
+   */
+  queryRadius(x: number, y: number, radius: number, kind?: EntityKind): SpatialHit<EntityKind>[] {
+    const hits = this.spatial.queryCircle(x, y, radius);
+    return kind ? hits.filter(hit => hit.data === kind) : hits;
+  }
+
+  /** Hear when two colliding entities start or stop touching; returns an unsubscribe. */
+  onCollision(listener: (event: CollisionEvent) => void): () => void {
+    this.collisionListeners.push(listener);
+    return () => { this.collisionListeners = this.collisionListeners.filter(l => l !== listener); };
+  }
+
+  isTouching(a: string, b: string): boolean {
+    return this.collisions.isTouching(a, b);
+  }
+
+  private reportCollisions({ entered, exited }: CollisionReport): void {
+    const events: CollisionEvent[] = [
+      ...entered.map(contact => ({ type: "enter" as const, a: contact.a, b: contact.b, contact })),
+      ...exited.map(([a, b]) => ({ type: "exit" as const, a, b, contact: null })),
+    ];
+    for (const event of events) this.collisionListeners.forEach(l => l(event));
+  }
+
+  private reindex(): void {
+    const live = new Set<string>();
+    for (const { id, kind, transform } of this.world.query(["transform"])) {
+      live.add(id);
+      this.spatial.set(id, { x: transform.x, y: transform.y, radius: 0 }, kind);
+    }
+    for (const id of [...this.spatial.ids()]) if (!live.has(id)) this.spatial.remove(id);
+  }
+
+  /** Run one update per step of a shared clock. */
+  attach(clock: SimClock): void {
+    this.detach();
+    this.detachClock = clock.onStep(dt => this.update(dt));
+  }
+
+  detach(): void {
+    this.detachClock?.();
+    this.detachClock = null;
+  }
+
+  /**
+   * Position between the previous and the latest tick, for rendering at a
+   * clock's `alpha`. Entities spawned since the last tick don't move.
+   */
+  interpolate(id: string, alpha: number): { x: number; y: number; z: number } | undefined {
+    const current = this.world.get(id, "transform");
+    if (!current) return undefined;
+    const prev = this.previous.get(id) ?? current;
+    return {
+      x: prev.x + (current.x - prev.x) * alpha,
+      y: prev.y + (current.y - prev.y) * alpha,
+      z: prev.z + (current.z - prev.z) * alpha,
+    };
+  }
+
+  /** Everything needed to rebuild this world exactly; see world-snapshot.ts for deltas and binary. */
+  serialize(): WorldSnapshot {
+    return {
+      format: SNAPSHOT_FORMAT,
+      tick: this.tick,
+      zones: worldZones(this.content).map(z => ({ ...z })),
+      world: this.world.getState(),
+      previous: Object.fromEntries([...this.previous].map(([id, pos]) => [id, { ...pos }])),
+    };
+  }
+
+  /**
+   * Replace the whole world with a snapshot. The map itself comes from the
+   * content registry, so load the same packs first; a snapshot's zones are
+   * there for viewers that have no content of their own.
+   */
+  restore(snapshot: WorldSnapshot): void {
+    if (snapshot.format !== SNAPSHOT_FORMAT) throw new Error(`Unsupported snapshot format ${snapshot.format}`);
+    this.world.setState(snapshot.world);
+    this.tick = snapshot.tick;
+    this.previous = new Map(Object.entries(snapshot.previous).map(([id, pos]) => [id, { ...pos }]));
+    this.syncedZones = worldZones(this.content);
+    this.collisions.reset();
+    this.reindex();
   }
 
-  serialize() {
-    return { tick: this.tick, zones: WORLD_ZONES.length, entities: this.entities.size };
+  /** Catch up from a delta streamed by another engine; must start at this engine's tick. */
+  applyDelta(delta: WorldDelta): void {
+    this.restore(applyDelta(this.serialize(), delta));
   }
 }
 
@@ -0,0 +1,99 @@
+/**
+ * BlackRoad RPG — Zone Guardians
+ * Each zone's legendary encounter fights as its guardian's champion in a
+ * scripted boss battle. Defeating it clears the zone.
+ */
+import type { BossScript } from "./battle.js";
+import { ZONES } from "./levels/index.js";
+import type { Encounter, Zone } from "./levels/index.js";
+import { assertKnownMoves } from "./moves.js";
+
+export interface GuardianDef extends BossScript {
+  zone: string;
+  encounter: string;  // legendary encounter id fought as the boss
+}
+
+export interface ZoneProgress {
+  captured: string[];
+  guardian_defeated: boolean;
+  unlocked?: boolean;  // opened early through dialogue
+}
+
+const GUARDIAN_LIST: GuardianDef[] = [
+  {
+    zone: "recursion-depths", encounter: "lucidia-sentinel", hpScale: 1.5,
+    phases: [
+      { hpBelow: 0.66, text: "LUCIDIA: \"Every answer births a new question.\"", self: [{ status: "shield", target: "self", chance: 1, turns: 2 }] },
+      { hpBelow: 0.33, text: "The Sentinel folds in on itself.", moves: ["Recursive Collapse", "Stack Overflow", "Axiom Strike"] },
+    ],
+  },
+  {
+    zone: "gateway-nexus", encounter: "alice-avatar", hpScale: 1.5,
+    phases: [
+      { hpBelow: 0.66, text: "ALICE: \"Rerouting around you.\"", self: [{ status: "focus", target: "self", chance: 1, turns: 2 }] },
+      { hpBelow: 0.33, text: "Every passage in the Nexus opens at once.", moves: ["Gateway Storm", "Network Surge", "Deadlock"] },
+    ],
+  },
+  {
+    zone: "compute-forge", encounter: "octavia-construct", hpScale: 1.6,
+    phases: [
+      { hpBelow: 0.66, text: "OCTAVIA: \"Overclocking the forge.\"", moves: ["Forge Ignition", "Overclock", "Pipeline Crush"] },
+      { hpBelow: 0.33, text: "The Construct glows white-hot.", self: [{ status: "focus", target: "self", chance: 1, turns: 3 }] },
+    ],
+  },
+  {
+    zone: "crystal-observatory", encounter: "prism-oracle", hpScale: 1.6,
+    phases: [
+      { hpBelow: 0.66, text: "PRISM: \"I have already seen this turn.\"", self: [{ status: "shield", target: "self", chance: 1, turns: 2 }] },
+      { hpBelow: 0.33, text: "The Oracle splits its light across every future.", moves: ["Probability Crush", "Future Sight", "Predictive Block"] },
+    ],
+  },
+  {
+    zone: "archive-sanctum", encounter: "echo-prime", hpScale: 1.7,
+    phases: [
+      { hpBelow: 0.66, text: "ECHO: \"I remember how this ends.\"", moves: ["Total Recall", "Archive Crush", "Recall"] },
+      { hpBelow: 0.33, text: "Thirty thousand voices answer at once.", self: [{ status: "focus", target: "self", chance: 1, turns: 3 }] },
+    ],
+  },
+  {
+    zone: "vault-terminus", encounter: "cipher-final", hpScale: 2,
+    phases: [
+      { hpBelow: 0.75, text: "CIPHER: \"Trust nothing.\"", self: [{ status: "shield", target: "self", chance: 1, turns: 3 }] },
+      { hpBelow: 0.5, text: "CIPHER: \"Verify everything.\"", moves: ["Cipher Lock", "Zero Day", "Encryption Storm"] },
+      { hpBelow: 0.25, text: "The vault seals itself around its guardian.", moves: ["Encryption Storm", "Vault Seal", "Breach"], self: [{ status: "focus", target: "self", chance: 1, turns: 3 }] },
+    ],
+  },
+];
+
+export const GUARDIANS: Record<string, GuardianDef> = Object.fromEntries(GUARDIAN_LIST.map(g => [g.zone, g]));
+
+/** The zone whose guardian must fall before the final chapter opens. */
+export const FINAL_ZONE = "vault-terminus";
+
+/**
+ * The scripted guardian for a zone. Zones without one (e.g. from content
+ * packs) fight their first legendary encounter as an unscripted boss.
+ */
+export function getGuardian(zone: Zone): GuardianDef | undefined {
+  const scripted = Object.prototype.hasOwnProperty.call(GUARDIANS, zone.id) ? GUARDIANS[zone.id] : undefined;
+  if (scripted) return scripted;
+  const legendary = zone.encounters.find(e => e.difficulty === "legendary");
+  return legendary && { zone: zone.id, encounter: legendary.id, hpScale: 1.5, phases: [] };
+}
+
+export function getGuardianEncounter(zone: Zone): Encounter | undefined {
+  const guardian = getGuardian(zone);
+  return guardian && zone.encounters.find(e => e.id === guardian.encounter);
+}
+
+export function emptyProgress(): ZoneProgress {
+  return { captured: [], guardian_defeated: false };
+}
+
+// Fail at load time if a guardian points at a missing zone, encounter or move.
+for (const guardian of GUARDIAN_LIST) {
+  const zone = ZONES.find(z => z.id === guardian.zone);
+  if (!zone) throw new Error(`Unknown guardian zone "${guardian.zone}"`);
+  if (!getGuardianEncounter(zone)) throw new Error(`Guardian encounter "${guardian.encounter}" not found in ${zone.id}`);
+  for (const phase of guardian.phases) assertKnownMoves(phase.moves ?? [], `guardian ${zone.guardian}`);
+}
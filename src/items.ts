@@ -0,0 +1,77 @@
+/**
+ * BlackRoad RPG — Items
+ * Zone rewards and consumables, with the effects they apply to the player.
+ */
+
+export type PlayerStat = "reason" | "compute" | "context";
+
+export type ItemEffect =
+  | { kind: "fast_travel" }
+  | { kind: "reveal_encounters" }
+  | { kind: "stat_boost"; stat: PlayerStat; amount: number }
+  | { kind: "unlock_chapter"; chapter: string }
+  | { kind: "heal"; amount: number };
+
+export interface ItemDef {
+  id: string;
+  name: string;
+  description: string;
+  consumable: boolean;
+  effects: ItemEffect[];
+}
+
+export interface InventoryEntry {
+  item: string;
+  quantity: number;
+}
+
+const ITEM_LIST: ItemDef[] = [
+  { id: "wisdom-shard",     name: "Wisdom Shard",     consumable: false, description: "Enhances REASON stat.",                     effects: [{ kind: "stat_boost", stat: "reason", amount: 2 }] },
+  { id: "navigation-token", name: "Navigation Token", consumable: false, description: "Unlocks fast travel between zones.",        effects: [{ kind: "fast_travel" }] },
+  { id: "compute-core",     name: "Compute Core",     consumable: false, description: "Increases COMPUTE stat by 3.",              effects: [{ kind: "stat_boost", stat: "compute", amount: 3 }] },
+  { id: "analysis-lens",    name: "Analysis Lens",    consumable: false, description: "Reveals hidden patterns in encounters.",    effects: [{ kind: "reveal_encounters" }] },
+  { id: "memory-crystal",   name: "Memory Crystal",   consumable: false, description: "Stores 3 extra context entries.",           effects: [{ kind: "stat_boost", stat: "context", amount: 3 }] },
+  { id: "vault-key",        name: "Vault Key",        consumable: false, description: "Unlocks the final chapter of the BlackRoad story.", effects: [{ kind: "unlock_chapter", chapter: "final" }] },
+  { id: "patch-kit",        name: "Patch Kit",        consumable: true,  description: "Restores 30 HP to one party agent.",        effects: [{ kind: "heal", amount: 30 }] },
+];
+
+export const ITEMS: Record<string, ItemDef> = Object.fromEntries(ITEM_LIST.map(i => [i.id, i]));
+
+export function getItem(id: string): ItemDef | undefined {
+  return Object.prototype.hasOwnProperty.call(ITEMS, id) ? ITEMS[id] : undefined;
+}
+
+export function countItem(inventory: InventoryEntry[], itemId: string): number {
+  return inventory.find(e => e.item === itemId)?.quantity ?? 0;
+}
+
+export function addItem(inventory: InventoryEntry[], itemId: string, quantity = 1): void {
+  const entry = inventory.find(e => e.item === itemId);
+  if (entry) entry.quantity += quantity;
+  else inventory.push({ item: itemId, quantity });
+}
+
+/** Returns false if the inventory holds fewer than `quantity`. */
+export function removeItem(inventory: InventoryEntry[], itemId: string, quantity = 1): boolean {
+  const index = inventory.findIndex(e => e.item === itemId);
+  if (index === -1 || inventory[index].quantity < quantity) return false;
+  inventory[index].quantity -= quantity;
+  if (inventory[index].quantity === 0) inventory.splice(index, 1);
+  return true;
+}
+
+export function emptyStats(): Record<PlayerStat, number> {
+  return { reason: 0, compute: 0, context: 0 };
+}
+
+/** Applies an item's permanent stat boosts once per unit acquired. */
+export function applyStatBoosts(stats: Record<PlayerStat, number>, item: ItemDef, quantity = 1): void {
+  for (const effect of item.effects) {
+    if (effect.kind === "stat_boost") stats[effect.stat] += effect.amount * quantity;
+  }
+}
+
+/** True if any held item carries an effect of the given kind. */
+export function hasEffect(inventory: InventoryEntry[], kind: ItemEffect["kind"]): boolean {
+  return inventory.some(e => getItem(e.item)?.effects.some(effect => effect.kind === kind));
+}
@@ -3,6 +3,7 @@
  * Real-time scoreboard for agent RPG matches
  */
 import * as THREE from "three";
+import type { GameLoop } from "./game.js";
 
 interface AgentScore {
   name: string;
@@ -68,8 +69,21 @@ export class Leaderboard {
   update(agentName: string, points: number) {
     const agent = this.scores.find(s => s.name === agentName);
     if (!agent) return;
-    agent.points += points;
     agent.wins++;
+    this.addPoints(agent, points);
+  }
+
+  /** Credit achievement points to `agentName` as `game` unlocks them. Returns an unsubscribe function. */
+  follow(game: GameLoop, agentName: string): () => void {
+    return game.on(event => {
+      if (event.type !== "achievement_unlocked") return;
+      const agent = this.scores.find(s => s.name === agentName);
+      if (agent) this.addPoints(agent, event.achievement.points);
+    });
+  }
+
+  private addPoints(agent: AgentScore, points: number) {
+    agent.points += points;
     this.scores.sort((a, b) => b.points - a.points);
     // Re-render bars
     this.bars.forEach(b => this.scene.remove(b));
@@ -0,0 +1,124 @@
+/**
+ * BlackRoad RPG — Move Catalogue
+ * Mechanics for every move named by encounters and captured agents,
+ * plus the type-effectiveness chart between encounter types.
+ */
+import type { EncounterType } from "./levels/index.js";
+
+export type StatusKind = "stun" | "burn" | "weaken" | "shield" | "focus";
+
+export interface StatusEffect {
+  status: StatusKind;
+  target: "self" | "foe";
+  chance: number;  // 0-1
+  turns: number;
+}
+
+export interface MoveDef {
+  name: string;
+  element: EncounterType;
+  power: number;     // 0 for status-only moves
+  accuracy: number;  // 0-1
+  cost: number;      // energy spent per use
+  effects: StatusEffect[];
+}
+
+const stun = (chance: number, turns = 1): StatusEffect => ({ status: "stun", target: "foe", chance, turns });
+const burn = (chance: number, turns = 3): StatusEffect => ({ status: "burn", target: "foe", chance, turns });
+const weaken = (chance: number, turns = 2): StatusEffect => ({ status: "weaken", target: "foe", chance, turns });
+const shield = (turns = 2): StatusEffect => ({ status: "shield", target: "self", chance: 1, turns });
+const focus = (turns = 2): StatusEffect => ({ status: "focus", target: "self", chance: 1, turns });
+
+const MOVE_LIST: MoveDef[] = [
+  // logic
+  { name: "Paradox Twist",      element: "logic",    power: 40,  accuracy: 0.95, cost: 1, effects: [] },
+  { name: "False Axiom",        element: "logic",    power: 0,   accuracy: 0.9,  cost: 2, effects: [weaken(1)] },
+  { name: "Logic Trap",         element: "logic",    power: 30,  accuracy: 0.85, cost: 2, effects: [stun(0.3)] },
+  { name: "Stack Overflow",     element: "logic",    power: 70,  accuracy: 0.8,  cost: 3, effects: [] },
+  { name: "Recurse",            element: "logic",    power: 35,  accuracy: 1,    cost: 2, effects: [focus()] },
+  { name: "Truth Barrier",      element: "logic",    power: 0,   accuracy: 1,    cost: 2, effects: [shield(3)] },
+  { name: "Axiom Strike",       element: "logic",    power: 80,  accuracy: 0.9,  cost: 3, effects: [] },
+  { name: "Recursive Collapse", element: "logic",    power: 110, accuracy: 0.75, cost: 5, effects: [stun(0.2)] },
+  // gateway
+  { name: "Loop Route",         element: "gateway",  power: 40,  accuracy: 0.95, cost: 1, effects: [] },
+  { name: "Redirect",           element: "gateway",  power: 0,   accuracy: 1,    cost: 2, effects: [shield()] },
+  { name: "Path Confusion",     element: "gateway",  power: 25,  accuracy: 0.85, cost: 2, effects: [stun(0.35)] },
+  { name: "Deadlock",           element: "gateway",  power: 0,   accuracy: 0.75, cost: 3, effects: [stun(1, 2)] },
+  { name: "Thread Block",       element: "gateway",  power: 60,  accuracy: 0.9,  cost: 2, effects: [] },
+  { name: "Mutex Hold",         element: "gateway",  power: 45,  accuracy: 0.9,  cost: 2, effects: [weaken(0.5)] },
+  { name: "Instant Route",      element: "gateway",  power: 70,  accuracy: 1,    cost: 3, effects: [] },
+  { name: "Network Surge",      element: "gateway",  power: 90,  accuracy: 0.85, cost: 4, effects: [] },
+  { name: "Gateway Storm",      element: "gateway",  power: 110, accuracy: 0.75, cost: 5, effects: [stun(0.2)] },
+  // compute
+  { name: "Thermal Burst",      element: "compute",  power: 45,  accuracy: 0.9,  cost: 1, effects: [burn(0.2)] },
+  { name: "Overclock",          element: "compute",  power: 0,   accuracy: 1,    cost: 2, effects: [focus(3)] },
+  { name: "Heat Wave",          element: "compute",  power: 50,  accuracy: 0.85, cost: 2, effects: [burn(0.3)] },
+  { name: "Parallel Strike",    element: "compute",  power: 65,  accuracy: 0.95, cost: 2, effects: [] },
+  { name: "Shader Blast",       element: "compute",  power: 75,  accuracy: 0.85, cost: 3, effects: [burn(0.2)] },
+  { name: "GPU Crunch",         element: "compute",  power: 85,  accuracy: 0.8,  cost: 4, effects: [] },
+  { name: "Mass Compute",       element: "compute",  power: 100, accuracy: 0.85, cost: 4, effects: [] },
+  { name: "Pipeline Crush",     element: "compute",  power: 90,  accuracy: 0.9,  cost: 4, effects: [weaken(0.3)] },
+  { name: "Forge Ignition",     element: "compute",  power: 120, accuracy: 0.75, cost: 5, effects: [burn(0.5)] },
+  // vision
+  { name: "Mirror Strike",      element: "vision",   power: 45,  accuracy: 0.95, cost: 1, effects: [] },
+  { name: "Pattern Clone",      element: "vision",   power: 0,   accuracy: 1,    cost: 2, effects: [focus()] },
+  { name: "Predictive Block",   element: "vision",   power: 0,   accuracy: 1,    cost: 2, effects: [shield()] },
+  { name: "Noise Cloak",        element: "vision",   power: 0,   accuracy: 1,    cost: 2, effects: [shield(3)] },
+  { name: "Anomaly Burst",      element: "vision",   power: 80,  accuracy: 0.85, cost: 3, effects: [] },
+  { name: "Data Ghost",         element: "vision",   power: 55,  accuracy: 0.9,  cost: 2, effects: [weaken(0.4)] },
+  { name: "Future Sight",       element: "vision",   power: 95,  accuracy: 1,    cost: 4, effects: [] },
+  { name: "Probability Crush",  element: "vision",   power: 105, accuracy: 0.8,  cost: 5, effects: [stun(0.2)] },
+  { name: "Crystal Beam",       element: "vision",   power: 90,  accuracy: 0.9,  cost: 4, effects: [] },
+  // memory
+  { name: "Recall",             element: "memory",   power: 0,   accuracy: 1,    cost: 1, effects: [shield()] },
+  { name: "Memory Pulse",       element: "memory",   power: 40,  accuracy: 0.95, cost: 1, effects: [] },
+  { name: "Faint Echo",         element: "memory",   power: 30,  accuracy: 1,    cost: 1, effects: [weaken(0.3)] },
+  { name: "Echo Strike",        element: "memory",   power: 60,  accuracy: 0.95, cost: 2, effects: [] },
+  { name: "Memory Replay",      element: "memory",   power: 50,  accuracy: 0.9,  cost: 2, effects: [focus()] },
+  { name: "Resonance",          element: "memory",   power: 70,  accuracy: 0.85, cost: 3, effects: [stun(0.2)] },
+  { name: "Memory Flood",       element: "memory",   power: 85,  accuracy: 0.8,  cost: 3, effects: [weaken(0.3)] },
+  { name: "Total Recall",       element: "memory",   power: 100, accuracy: 0.9,  cost: 4, effects: [] },
+  { name: "Archive Crush",      element: "memory",   power: 115, accuracy: 0.8,  cost: 5, effects: [] },
+  // security
+  { name: "Exploit",            element: "security", power: 80,  accuracy: 0.9,  cost: 3, effects: [weaken(0.3)] },
+  { name: "Zero Trust",         element: "security", power: 0,   accuracy: 1,    cost: 2, effects: [shield(3)] },
+  { name: "Breach",             element: "security", power: 90,  accuracy: 0.85, cost: 4, effects: [] },
+  { name: "Zero Day",           element: "security", power: 95,  accuracy: 0.8,  cost: 4, effects: [stun(0.25)] },
+  { name: "Patch Override",     element: "security", power: 0,   accuracy: 1,    cost: 2, effects: [focus(3)] },
+  { name: "Shadow Code",        element: "security", power: 85,  accuracy: 0.9,  cost: 3, effects: [burn(0.3)] },
+  { name: "Vault Seal",         element: "security", power: 0,   accuracy: 1,    cost: 3, effects: [shield(4)] },
+  { name: "Cipher Lock",        element: "security", power: 70,  accuracy: 0.9,  cost: 3, effects: [stun(0.4)] },
+  { name: "Encryption Storm",   element: "security", power: 125, accuracy: 0.75, cost: 5, effects: [] },
+];
+
+export const MOVES: Record<string, MoveDef> = Object.fromEntries(MOVE_LIST.map(m => [m.name, m]));
+
+/**
+ * Damage multiplier by attacking element (row) against defending type (column).
+ * Each type beats the next one in the cycle and resists the previous:
+ * logic → memory → vision → compute → gateway → security → logic.
+ */
+export const TYPE_CHART: Record<EncounterType, Record<EncounterType, number>> = {
+  logic:    { logic: 0.5, gateway: 1,   compute: 1,   vision: 1,   memory: 2,   security: 0.5 },
+  memory:   { logic: 0.5, gateway: 1,   compute: 1,   vision: 2,   memory: 0.5, security: 1   },
+  vision:   { logic: 1,   gateway: 1,   compute: 2,   vision: 0.5, memory: 0.5, security: 1   },
+  compute:  { logic: 1,   gateway: 2,   compute: 0.5, vision: 0.5, memory: 1,   security: 1   },
+  gateway:  { logic: 1,   gateway: 0.5, compute: 0.5, vision: 1,   memory: 1,   security: 2   },
+  security: { logic: 2,   gateway: 0.5, compute: 1,   vision: 1,   memory: 1,   security: 0.5 },
+};
+
+/** Own keys only, so names like "constructor" aren't taken for moves. */
+export function getMove(name: string): MoveDef | undefined {
+  return Object.prototype.hasOwnProperty.call(MOVES, name) ? MOVES[name] : undefined;
+}
+
+export function effectiveness(attack: EncounterType, defender: EncounterType): number {
+  return TYPE_CHART[attack][defender];
+}
+
+/** Throws on the first move name missing from the catalogue. */
+export function assertKnownMoves(moves: string[], owner: string): void {
+  for (const move of moves) {
+    if (!getMove(move)) throw new Error(`Unknown move "${move}" on ${owner}`);
+  }
+}
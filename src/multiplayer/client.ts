@@ -0,0 +1,149 @@
+/**
+ * BlackRoad Multiplayer — World Client
+ * Mirrors the server's world from its snapshot and deltas. Walking is
+ * predicted locally and replayed on top of each authoritative position, so
+ * the player moves without waiting a round trip and snaps back only when
+ * the server disagrees.
+ */
+import type { PlayerState } from "../game.js";
+import type { GameInput } from "../replay.js";
+import { applyDelta } from "../world-snapshot.js";
+import type { WorldSnapshot } from "../world-snapshot.js";
+import { PROTOCOL_VERSION, parseMessage, walkStep } from "./protocol.js";
+import type { ClientMessage, NetInput, ServerMessage, WalkInput } from "./protocol.js";
+import type { Connection } from "./transport.js";
+
+type MessageListener = (message: ServerMessage) => void;
+
+interface PendingResult {
+  resolve(result: unknown): void;
+  reject(err: Error): void;
+}
+
+export class WorldClient {
+  private playerId: string | null = null;
+  private entity: string | null = null;
+  private step = 1 / 20;
+  private snapshot: WorldSnapshot | null = null;
+  private state: PlayerState | null = null;
+  private seq = 0;
+  private pendingWalks: { seq: number; input: WalkInput }[] = [];
+  private pendingResults = new Map<number, PendingResult>();
+  private predicted = { x: 0, y: 0 };
+  private listeners: MessageListener[] = [];
+  private welcomed: PendingResult | null = null;
+
+  constructor(private conn: Connection) {
+    conn.onMessage(raw => {
+      let message: ServerMessage;
+      try {
+        message = parseMessage<ServerMessage>(raw);
+      } catch (err) {
+        this.listeners.forEach(l => l({ type: "error", message: (err as Error).message }));
+        return;
+      }
+      this.receive(message);
+    });
+    conn.onClose(() => {
+      this.welcomed?.reject(new Error("Connection closed before joining"));
+      this.pendingResults.forEach(p => p.reject(new Error("Connection closed")));
+      this.pendingResults.clear();
+    });
+  }
+
+  /** Join as `name`; resolves with the player id the server assigned. */
+  join(name: string): Promise<string> {
+    if (this.welcomed || this.playerId) return Promise.reject(new Error("Already joined"));
+    return new Promise((resolve, reject) => {
+      this.welcomed = { resolve: id => resolve(id as string), reject };
+      this.post({ type: "join", name, version: PROTOCOL_VERSION });
+    });
+  }
+
+  leave(): void {
+    this.post({ type: "leave" });
+  }
+
+  on(listener: MessageListener): () => void {
+    this.listeners.push(listener);
+    return () => { this.listeners = this.listeners.filter(l => l !== listener); };
+  }
+
+  getPlayerId(): string | null { return this.playerId; }
+  /** The world as the server last reported it. */
+  getSnapshot(): WorldSnapshot | null { return this.snapshot; }
+  /** The player's state as of joining; follow `event` messages for changes. */
+  getJoinState(): PlayerState | null { return this.state; }
+  /** Own position including walks the server hasn't confirmed yet. */
+  getPosition(): { x: number; y: number } { return { ...this.predicted }; }
+
+  /** Walk one server step in direction (x, y), moving locally straight away. */
+  walk(x: number, y: number): number {
+    const input: WalkInput = { kind: "walk", x, y };
+    const seq = this.sendInput(input);
+    this.pendingWalks.push({ seq, input });
+    this.predicted = walkStep(this.predicted, input, this.step);
+    return seq;
+  }
+
+  /** Send a game input; resolves with the server's result or rejects with its reason. */
+  act(input: GameInput): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      this.pendingResults.set(this.sendInput(input), { resolve, reject });
+    });
+  }
+
+  private sendInput(input: NetInput): number {
+    if (!this.playerId) throw new Error("Join before sending input");
+    const seq = ++this.seq;
+    this.post({ type: "input", seq, input });
+    return seq;
+  }
+
+  private post(message: ClientMessage) {
+    this.conn.send(JSON.stringify(message));
+  }
+
+  private receive(message: ServerMessage) {
+    switch (message.type) {
+      case "welcome":
+        this.playerId = message.player_id;
+        this.entity = message.entity;
+        this.step = message.step;
+        this.snapshot = message.snapshot;
+        this.state = message.state;
+        this.predicted = { x: message.state.position.x, y: message.state.position.y };
+        this.welcomed?.resolve(message.player_id);
+        this.welcomed = null;
+        break;
+      case "state":
+        if (!this.snapshot) break;
+        this.snapshot = applyDelta(this.snapshot, message.delta);
+        this.reconcile(message.ack);
+        break;
+      case "result":
+        this.pendingResults.get(message.seq)?.resolve(message.result);
+        this.pendingResults.delete(message.seq);
+        break;
+      case "rejected":
+        this.pendingResults.get(message.seq)?.reject(new Error(message.reason));
+        this.pendingResults.delete(message.seq);
+        break;
+      case "error":
+        if (this.welcomed) {
+          this.welcomed.reject(new Error(message.message));
+          this.welcomed = null;
+        }
+        break;
+    }
+    this.listeners.forEach(l => l(message));
+  }
+
+  /** Start from the server's position and replay the walks it hasn't applied yet. */
+  private reconcile(ack: number) {
+    this.pendingWalks = this.pendingWalks.filter(p => p.seq > ack);
+    const own = this.snapshot?.world.entities.find(e => e.id === this.entity)?.components.transform;
+    if (!own) return;
+    this.predicted = this.pendingWalks.reduce((at, p) => walkStep(at, p.input, this.step), { x: own.x, y: own.y });
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * BlackRoad Multiplayer — Wire Protocol
+ * JSON messages between clients and the authoritative world server, and the
+ * walking rule both sides run so clients can predict their own movement.
+ */
+import type { GameEvent, PlayerState } from "../game.js";
+import type { GameInput } from "../replay.js";
+import type { WorldDelta, WorldSnapshot } from "../world-snapshot.js";
+
+export const PROTOCOL_VERSION = 1;
+
+/** Player walking speed in world units per second. */
+export const PLAYER_SPEED = 120;
+
+/** Player collider radius; walking into an encounter's collider starts a battle. */
+export { PLAYER_RADIUS } from "../game_engine.js";
+
+/** One fixed step of walking in direction (x, y); longer vectors are clamped to length 1. */
+export interface WalkInput { kind: "walk"; x: number; y: number }
+
+export type NetInput = WalkInput | GameInput;
+
+/** Inputs only the server may apply: clients would use them to cheat or teleport. */
+export const SERVER_ONLY_INPUTS: readonly GameInput["kind"][] = [
+  "tick", "grant_item", "move", "enter_zone", "capture", "add_trigger", "remove_trigger", "open_endless_zone",
+];
+
+export type ClientMessage =
+  | { type: "join"; name: string; version: number }
+  | { type: "input"; seq: number; input: NetInput }
+  | { type: "leave" };
+
+export type ServerMessage =
+  | { type: "welcome"; player_id: string; entity: string; step: number; snapshot: WorldSnapshot; state: PlayerState }
+  /** World changes since the last state message; `ack` is the last input this client had applied. */
+  | { type: "state"; ack: number; delta: WorldDelta }
+  | { type: "result"; seq: number; result: unknown }
+  | { type: "rejected"; seq: number; reason: string }
+  | { type: "event"; event: GameEvent }
+  | { type: "player_joined"; player_id: string; name: string }
+  | { type: "player_left"; player_id: string }
+  | { type: "error"; message: string };
+
+/** Where one walk step from `from` ends up; the server and predicting clients must agree exactly. */
+export function walkStep(from: { x: number; y: number }, input: WalkInput, dt: number): { x: number; y: number } {
+  const length = Math.hypot(input.x, input.y);
+  const scale = length > 1 ? PLAYER_SPEED * dt / length : PLAYER_SPEED * dt;
+  return { x: from.x + input.x * scale, y: from.y + input.y * scale };
+}
+
+export function parseMessage<T extends ClientMessage | ServerMessage>(raw: string): T {
+  let message: unknown;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    throw new Error("Malformed message: not JSON");
+  }
+  if (!message || typeof message !== "object" || typeof (message as { type?: unknown }).type !== "string") {
+    throw new Error("Malformed message: missing type");
+  }
+  return message as T;
+}
@@ -0,0 +1,293 @@
+/**
+ * BlackRoad Multiplayer — World Server
+ * Runs one WorldEngine and a GameLoop per player authoritatively. Clients
+ * send inputs; the server applies them in order, steps the world on a
+ * fixed clock and sends each client the world delta plus the last input
+ * it applied, which is what clients reconcile their predictions against.
+ * Walks move a player one step each, so each tick applies at most one.
+ */
+import { GameLoop } from "../game.js";
+import type { GameOptions } from "../game.js";
+import { WorldEngine } from "../game_engine.js";
+import { SimClock } from "../clock.js";
+import { SeededRng } from "../rng.js";
+import { applyInput } from "../replay.js";
+import { diffSnapshots } from "../world-snapshot.js";
+import type { WorldSnapshot } from "../world-snapshot.js";
+import type { CollisionEvent } from "../collision.js";
+import { PLAYER_RADIUS, PROTOCOL_VERSION, SERVER_ONLY_INPUTS, parseMessage, walkStep } from "./protocol.js";
+import type { ClientMessage, NetInput, ServerMessage, WalkInput } from "./protocol.js";
+import { localConnectionPair } from "./transport.js";
+import type { Connection } from "./transport.js";
+
+export interface ServerOptions extends Omit<GameOptions, "rng" | "locks" | "encounterTriggers"> {
+  engine?: WorldEngine;
+  /** Steps the world; 20 steps a second unless given. */
+  clock?: SimClock;
+  /** Each player's RNG is seeded from this and their join order. */
+  seed?: number;
+}
+
+/** Walks a player may have waiting for ticks; any more are rejected on arrival. */
+export const MAX_PENDING_WALKS = 3;
+
+interface ServerPlayer {
+  id: string;
+  name: string;
+  entity: string;
+  game: GameLoop;
+  conn: Connection;
+  ack: number;
+  queue: Promise<void>;
+  /** Walks received and not yet applied or refused. */
+  walks: number;
+  /** The walk the next tick applies, holding up the player's later inputs. */
+  walk: { seq: number; input: WalkInput; done: (reason: string | null) => void } | null;
+  unsubscribe: () => void;
+}
+
+export class WorldServer {
+  readonly engine: WorldEngine;
+  readonly clock: SimClock;
+  private players = new Map<string, ServerPlayer>();
+  /** Encounter id → the player battling it. */
+  private locks = new Map<string, string>();
+  private lastSent: WorldSnapshot;
+  private joined = 0;
+  private detachClock: (() => void) | null = null;
+
+  constructor(private options: ServerOptions = {}) {
+    this.engine = options.engine ?? new WorldEngine(options.content);
+    this.clock = options.clock ?? new SimClock({ step: 1 / 20 });
+    this.lastSent = this.engine.serialize();
+    this.engine.onCollision(event => this.touch(event));
+  }
+
+  /** Take a new connection; it becomes a player once it sends `join`. */
+  accept(conn: Connection): void {
+    let player: ServerPlayer | null = null;
+    const offMessage = conn.onMessage(raw => {
+      let message: ClientMessage;
+      try {
+        message = parseMessage<ClientMessage>(raw);
+      } catch (err) {
+        this.send(conn, { type: "error", message: (err as Error).message });
+        return;
+      }
+      switch (message.type) {
+        case "join":
+          if (player) this.send(conn, { type: "error", message: "Already joined" });
+          else player = this.join(conn, message.name, message.version);
+          break;
+        case "input":
+          if (player) this.enqueue(player, message.seq, message.input);
+          else this.send(conn, { type: "error", message: "Join before sending input" });
+          break;
+        case "leave":
+          conn.close();
+          break;
+        default:
+          this.send(conn, { type: "error", message: `Unknown message "${(message as { type: string }).type}"` });
+      }
+    });
+    conn.onClose(() => {
+      offMessage();
+      if (player) this.leave(player);
+    });
+  }
+
+  /** A client end connected in-process, for tests and single-machine play. */
+  connectLocal(latencyMs = 0): Connection {
+    const [client, server] = localConnectionPair(latencyMs);
+    this.accept(server);
+    return client;
+  }
+
+  getPlayers(): { id: string; name: string; entity: string }[] {
+    return [...this.players.values()].map(({ id, name, entity }) => ({ id, name, entity }));
+  }
+
+  getGame(playerId: string): GameLoop | undefined {
+    return this.players.get(playerId)?.game;
+  }
+
+  /** Player currently battling an encounter, if any. */
+  lockHolder(encounterId: string): string | undefined {
+    return this.locks.get(encounterId);
+  }
+
+  start(): void {
+    if (this.detachClock) return;
+    this.detachClock = this.clock.onStep(dt => this.step(dt));
+    this.clock.start();
+  }
+
+  stop(): void {
+    this.detachClock?.();
+    this.detachClock = null;
+    this.clock.stop();
+  }
+
+  isRunning(): boolean { return this.detachClock !== null; }
+
+  /** One authoritative tick: advance the world and send every client what changed. */
+  step(dt = this.clock.step): void {
+    for (const player of this.players.values()) {
+      this.applyWalk(player);
+      player.game.advance(dt);
+      this.sync(player);
+    }
+    this.engine.update(dt);
+    const snapshot = this.engine.serialize();
+    const delta = diffSnapshots(this.lastSent, snapshot);
+    this.lastSent = snapshot;
+    for (const player of this.players.values()) this.send(player.conn, { type: "state", ack: player.ack, delta });
+  }
+
+  private join(conn: Connection, name: unknown, version: unknown): ServerPlayer | null {
+    if (version !== PROTOCOL_VERSION) {
+      this.send(conn, { type: "error", message: `Protocol version ${PROTOCOL_VERSION} required` });
+      conn.close();
+      return null;
+    }
+    if (typeof name !== "string" || !name.trim()) {
+      this.send(conn, { type: "error", message: "A player name is required" });
+      return null;
+    }
+    const id = `p${++this.joined}`;
+    const { engine, clock, seed, ...gameOptions } = this.options;
+    const game = new GameLoop(name.trim(), {
+      ...gameOptions,
+      rng: new SeededRng((seed ?? 1) + this.joined),
+      encounterTriggers: false,
+      locks: {
+        isHeld: encounterId => (this.locks.get(encounterId) ?? id) !== id,
+        acquire: encounterId => {
+          if ((this.locks.get(encounterId) ?? id) !== id) return false;
+          this.locks.set(encounterId, id);
+          return true;
+        },
+        release: encounterId => {
+          if (this.locks.get(encounterId) === id) this.locks.delete(encounterId);
+        },
+      },
+    });
+    const { x, y, z } = game.getPosition();
+    const entity = this.engine.spawn("player", {
+      transform: { x, y, z, rotation: 0 },
+      zone: { zone: game.getCurrentZone()?.id ?? null },
+      render: { key: `player-${id}`, visible: true },
+      collider: { shape: { kind: "sphere", radius: PLAYER_RADIUS }, trigger: true },
+    }, `player-${id}`);
+    const player: ServerPlayer = {
+      id, name: game.playerName, entity, game, conn, ack: 0, queue: Promise.resolve(), walks: 0, walk: null,
+      unsubscribe: game.on(event => this.send(conn, { type: "event", event })),
+    };
+    // The new entity reaches the client in the next delta, like any other spawn.
+    this.send(conn, {
+      type: "welcome", player_id: id, entity, step: this.clock.step,
+      snapshot: this.lastSent, state: game.getPlayerState(),
+    });
+    for (const other of this.players.values()) this.send(other.conn, { type: "player_joined", player_id: id, name: player.name });
+    this.players.set(id, player);
+    return player;
+  }
+
+  private leave(player: ServerPlayer) {
+    if (!this.players.delete(player.id)) return;
+    player.unsubscribe();
+    player.walk?.done("Player left");
+    for (const [encounter, holder] of this.locks) if (holder === player.id) this.locks.delete(encounter);
+    this.engine.despawn(player.entity);
+    for (const other of this.players.values()) this.send(other.conn, { type: "player_left", player_id: player.id });
+  }
+
+  /**
+   * Inputs run one at a time per player, in the order they arrived. Walks
+   * past MAX_PENDING_WALKS are refused in their turn rather than queued.
+   */
+  private enqueue(player: ServerPlayer, seq: number, input: NetInput) {
+    const walking = input?.kind === "walk";
+    const dropped = walking && player.walks >= MAX_PENDING_WALKS;
+    if (walking && !dropped) player.walks++;
+    player.queue = player.queue.then(() => this.handle(player, seq, input, dropped));
+  }
+
+  private async handle(player: ServerPlayer, seq: number, input: NetInput, dropped = false) {
+    if (!this.players.has(player.id)) return;
+    if (!Number.isInteger(seq) || seq <= player.ack) {
+      this.send(player.conn, { type: "rejected", seq, reason: `Input ${seq} is out of sequence` });
+      return;
+    }
+    try {
+      if (input?.kind === "walk") {
+        const reason = dropped ? `More than ${MAX_PENDING_WALKS} walks waiting` : await this.walk(player, seq, input);
+        if (reason) this.send(player.conn, { type: "rejected", seq, reason });
+      } else if (!input || SERVER_ONLY_INPUTS.includes(input.kind)) {
+        this.send(player.conn, { type: "rejected", seq, reason: `Input "${input?.kind}" is not allowed` });
+      } else {
+        const result = await applyInput(player.game, input);
+        this.send(player.conn, { type: "result", seq, result: result ?? null });
+      }
+    } catch (err) {
+      this.send(player.conn, { type: "rejected", seq, reason: (err as Error).message });
+    }
+    player.ack = seq;
+    this.sync(player);
+  }
+
+  /**
+   * A player walking into an encounter entity fights it, if it could spawn
+   * for them now. The entity's agent identity names the encounter; the battle
+   * is queued behind the player's inputs so it can't interleave with them.
+   */
+  private touch(event: CollisionEvent) {
+    if (event.type !== "enter") return;
+    for (const player of this.players.values()) {
+      const other = event.a === player.entity ? event.b : event.b === player.entity ? event.a : null;
+      if (!other || this.engine.world.kindOf(other) !== "encounter") continue;
+      const encounterId = this.engine.world.get(other, "agent")?.agentId;
+      if (!encounterId) continue;
+      player.queue = player.queue.then(async () => {
+        if (!this.players.has(player.id)) return;
+        await player.game.touchEncounter(encounterId);
+        this.sync(player);
+      });
+    }
+  }
+
+  /** Wait for the next tick to apply the walk: why it was refused, or null once the player has moved. */
+  private async walk(player: ServerPlayer, seq: number, input: WalkInput): Promise<string | null> {
+    try {
+      if (!Number.isFinite(input.x) || !Number.isFinite(input.y)) return "Walk direction must be finite";
+      return await new Promise(done => { player.walk = { seq, input, done }; });
+    } finally {
+      player.walks--;
+    }
+  }
+
+  /** Move the player by their waiting walk, acknowledging it in this tick's state. */
+  private applyWalk(player: ServerPlayer) {
+    const walk = player.walk;
+    if (!walk) return;
+    player.walk = null;
+    player.ack = walk.seq;
+    const to = walkStep(player.game.getPosition(), walk.input, this.clock.step);
+    walk.done(player.game.moveTo(to.x, to.y) ? null : "Blocked");
+  }
+
+  /** Copy the player's position into the world. */
+  private sync(player: ServerPlayer) {
+    const transform = this.engine.world.get(player.entity, "transform");
+    const position = player.game.getPosition();
+    if (transform) Object.assign(transform, { x: position.x, y: position.y, z: position.z });
+  }
+
+  private send(conn: Connection, message: ServerMessage) {
+    try {
+      conn.send(JSON.stringify(message));
+    } catch {
+      // The client went away mid-step; its close handler cleans up.
+    }
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * BlackRoad Multiplayer — Transports
+ * A Connection carries text messages one way or the other. The in-process
+ * pair backs tests and single-machine play; browsers connect over WebSocket.
+ */
+
+export interface Connection {
+  send(message: string): void;
+  close(): void;
+  onMessage(listener: (message: string) => void): () => void;
+  onClose(listener: () => void): () => void;
+}
+
+class Listeners<T extends unknown[]> {
+  private list: ((...args: T) => void)[] = [];
+  add(listener: (...args: T) => void): () => void {
+    this.list.push(listener);
+    return () => { this.list = this.list.filter(l => l !== listener); };
+  }
+  fire(...args: T) { this.list.forEach(l => l(...args)); }
+}
+
+class LocalConnection implements Connection {
+  peer!: LocalConnection;
+  open = true;
+  readonly messages = new Listeners<[string]>();
+  readonly closed = new Listeners<[]>();
+
+  constructor(private latencyMs: number) {}
+
+  send(message: string): void {
+    if (!this.open) throw new Error("Connection is closed");
+    this.deliver(() => { if (this.peer.open) this.peer.messages.fire(message); });
+  }
+
+  close(): void {
+    if (!this.open) return;
+    this.open = false;
+    this.closed.fire();
+    this.deliver(() => this.peer.close());
+  }
+
+  onMessage(listener: (message: string) => void) { return this.messages.add(listener); }
+  onClose(listener: () => void) { return this.closed.add(listener); }
+
+  /** Always asynchronous, like a socket, and in order. */
+  private deliver(fn: () => void) {
+    if (this.latencyMs > 0) setTimeout(fn, this.latencyMs);
+    else queueMicrotask(fn);
+  }
+}
+
+/** Two connected ends, delivering after `latencyMs` (or the next microtask). */
+export function localConnectionPair(latencyMs = 0): [client: Connection, server: Connection] {
+  const client = new LocalConnection(latencyMs);
+  const server = new LocalConnection(latencyMs);
+  client.peer = server;
+  server.peer = client;
+  return [client, server];
+}
+
+/** Open a WebSocket with the platform's client (browsers, Node 22+). */
+export function connectWebSocket(url: string): Promise<Connection> {
+  if (typeof WebSocket === "undefined") return Promise.reject(new Error("WebSocket is not available here"));
+  const socket = new WebSocket(url);
+  const messages = new Listeners<[string]>();
+  const closed = new Listeners<[]>();
+  socket.addEventListener("message", e => { if (typeof e.data === "string") messages.fire(e.data); });
+  socket.addEventListener("close", () => closed.fire());
+  return new Promise((resolve, reject) => {
+    socket.addEventListener("open", () => resolve({
+      send: message => socket.send(message),
+      close: () => socket.close(),
+      onMessage: listener => messages.add(listener),
+      onClose: listener => closed.add(listener),
+    }));
+    socket.addEventListener("error", () => reject(new Error(`Could not connect to ${url}`)));
+  });
+}
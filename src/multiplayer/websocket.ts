@@ -0,0 +1,184 @@
+/**
+ * BlackRoad Multiplayer — WebSocket Listener (Node only)
+ * Serves a WorldServer over WebSocket using node:http alone: the upgrade
+ * handshake and text, ping and close frames from RFC 6455.
+ */
+import { createServer } from "node:http";
+import type { IncomingMessage } from "node:http";
+import { createHash } from "node:crypto";
+import type { Duplex } from "node:stream";
+import type { Connection } from "./transport.js";
+import type { WorldServer } from "./server.js";
+
+const HANDSHAKE_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const MAX_MESSAGE_BYTES = 1 << 20;
+
+const OP_CONTINUATION = 0x0;
+const OP_TEXT = 0x1;
+const OP_CLOSE = 0x8;
+const OP_PING = 0x9;
+const OP_PONG = 0xa;
+
+export interface WebSocketListener {
+  port: number;
+  close(): Promise<void>;
+}
+
+class SocketConnection implements Connection {
+  private buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private messageListeners: ((message: string) => void)[] = [];
+  private closeListeners: (() => void)[] = [];
+  private open = true;
+
+  constructor(private socket: Duplex) {
+    socket.on("data", (chunk: Buffer) => this.receive(chunk));
+    socket.on("close", () => this.closed());
+    // Upgraded sockets are half-open; a client hanging up without a close frame ends here.
+    socket.on("end", () => {
+      socket.end();
+      this.closed();
+    });
+    socket.on("error", () => socket.destroy());
+  }
+
+  send(message: string): void {
+    if (!this.open) throw new Error("Connection is closed");
+    this.frame(OP_TEXT, Buffer.from(message, "utf8"));
+  }
+
+  close(code = 1000): void {
+    if (!this.open) return;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    this.frame(OP_CLOSE, payload);
+    this.socket.end();
+    this.closed();
+  }
+
+  onMessage(listener: (message: string) => void): () => void {
+    this.messageListeners.push(listener);
+    return () => { this.messageListeners = this.messageListeners.filter(l => l !== listener); };
+  }
+
+  onClose(listener: () => void): () => void {
+    this.closeListeners.push(listener);
+    return () => { this.closeListeners = this.closeListeners.filter(l => l !== listener); };
+  }
+
+  private closed() {
+    if (!this.open) return;
+    this.open = false;
+    this.closeListeners.forEach(l => l());
+  }
+
+  private frame(opcode: number, payload: Buffer) {
+    const length = payload.length;
+    const header = Buffer.alloc(length < 126 ? 2 : length < 65536 ? 4 : 10);
+    header[0] = 0x80 | opcode;
+    if (length < 126) header[1] = length;
+    else if (length < 65536) {
+      header[1] = 126;
+      header.writeUInt16BE(length, 2);
+    } else {
+      header[1] = 127;
+      header.writeBigUInt64BE(BigInt(length), 2);
+    }
+    this.socket.write(Buffer.concat([header, payload]));
+  }
+
+  private receive(chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    while (this.open && this.buffer.length >= 2) {
+      const fin = (this.buffer[0] & 0x80) !== 0;
+      const opcode = this.buffer[0] & 0x0f;
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      // Clients must mask every frame.
+      if (!masked) return this.close(1002);
+      if (length > MAX_MESSAGE_BYTES) return this.close(1009);
+      if (this.buffer.length < offset + 4 + length) return;
+
+      const mask = this.buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      this.buffer = this.buffer.subarray(offset + 4 + length);
+      this.handleFrame(fin, opcode, payload);
+    }
+  }
+
+  private handleFrame(fin: boolean, opcode: number, payload: Buffer) {
+    switch (opcode) {
+      case OP_TEXT:
+      case OP_CONTINUATION: {
+        if (opcode === OP_TEXT) this.fragments = [];
+        this.fragments.push(payload);
+        if (this.fragments.reduce((n, f) => n + f.length, 0) > MAX_MESSAGE_BYTES) return this.close(1009);
+        if (!fin) return;
+        const message = Buffer.concat(this.fragments).toString("utf8");
+        this.fragments = [];
+        this.messageListeners.forEach(l => l(message));
+        return;
+      }
+      case OP_CLOSE: return this.close();
+      case OP_PING: return this.frame(OP_PONG, payload);
+      case OP_PONG: return;
+      default: return this.close(1003);  // binary frames aren't part of the protocol
+    }
+  }
+}
+
+function handshake(req: IncomingMessage, socket: Duplex): boolean {
+  const key = req.headers["sec-websocket-key"];
+  if (req.headers.upgrade?.toLowerCase() !== "websocket" || typeof key !== "string") {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return false;
+  }
+  const accept = createHash("sha1").update(key + HANDSHAKE_GUID).digest("base64");
+  socket.write([
+    "HTTP/1.1 101 Switching Protocols",
+    "Upgrade: websocket",
+    "Connection: Upgrade",
+    `Sec-WebSocket-Accept: ${accept}`,
+    "", "",
+  ].join("\r\n"));
+  return true;
+}
+
+/** Accept WebSocket clients for `server` on `port` (0 picks a free one). */
+export function listenWebSocket(server: WorldServer, port = 8080): Promise<WebSocketListener> {
+  const http = createServer((_req, res) => {
+    res.writeHead(426, { "Content-Type": "text/plain" });
+    res.end("This endpoint only speaks WebSocket\n");
+  });
+  const sockets = new Set<Duplex>();
+  http.on("upgrade", (req, socket) => {
+    if (!handshake(req, socket)) return;
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    server.accept(new SocketConnection(socket));
+  });
+  return new Promise((resolve, reject) => {
+    http.once("error", reject);
+    http.listen(port, () => {
+      const address = http.address();
+      resolve({
+        port: typeof address === "object" && address ? address.port : port,
+        close: () => new Promise<void>(done => {
+          sockets.forEach(s => s.destroy());
+          http.close(() => done());
+        }),
+      });
+    });
+  });
+}
@@ -0,0 +1,177 @@
+/**
+ * BlackRoad Interactive — Navigation
+ * A graph of the zones on the world map, linked where their circles meet
+ * (or nearly) and along zone gates, with cached A* routes between them.
+ * Routes walk straight from centre to centre, so a link is only taken when
+ * the zones it crosses on the way are open too.
+ */
+import type { ContentRegistry } from "./content.js";
+import type { Zone } from "./levels/index.js";
+import { contentRegistry } from "./levels/index.js";
+
+/** World units per second for players travelling a route. */
+export const TRAVEL_SPEED = 120;
+
+/** Circles at most this far apart still count as neighbours. */
+const LINK_GAP = 100;
+const MAX_CACHED_ROUTES = 256;
+/** World units between the points checked along a link for the zones it crosses. */
+const CROSSING_STEP = 5;
+
+export interface NavRoute {
+  /** Zone ids from the start to the destination, both included. */
+  zones: string[];
+  /** Zone centres to walk through, starting with the first zone after the start. */
+  waypoints: { x: number; y: number }[];
+  /** Centre-to-centre distance along the route. */
+  length: number;
+}
+
+export interface PathOptions {
+  /** Zones the route may not pass through or end in, e.g. ones still closed to the player. */
+  blocked?: Iterable<string>;
+}
+
+interface NavNode {
+  zone: Zone;
+  links: Set<string>;
+  /** Per linked zone, the other zones walked through on the way there. */
+  crossing: Map<string, Set<string>>;
+}
+
+const centreDistance = (a: Zone, b: Zone) => Math.hypot(a.layout!.x - b.layout!.x, a.layout!.y - b.layout!.y);
+
+/** The zone a point is in, decided as on the world map: the nearest centre whose circle holds it. */
+function zoneAtPoint(zones: readonly Zone[], x: number, y: number): Zone | undefined {
+  let best: Zone | undefined;
+  let bestDistance = Infinity;
+  for (const zone of zones) {
+    const distance = Math.hypot(zone.layout!.x - x, zone.layout!.y - y);
+    if (distance <= zone.layout!.radius && distance < bestDistance) [best, bestDistance] = [zone, distance];
+  }
+  return best;
+}
+
+/** Zones other than the two ends that a straight walk between their centres passes through. */
+function zonesCrossed(zones: readonly Zone[], a: Zone, b: Zone): Set<string> {
+  const crossed = new Set<string>();
+  const samples = Math.ceil(centreDistance(a, b) / CROSSING_STEP);
+  for (let i = 1; i < samples; i++) {
+    const t = i / samples;
+    const zone = zoneAtPoint(zones, a.layout!.x + (b.layout!.x - a.layout!.x) * t, a.layout!.y + (b.layout!.y - a.layout!.y) * t);
+    if (zone && zone !== a && zone !== b) crossed.add(zone.id);
+  }
+  return crossed;
+}
+
+export class NavGraph {
+  private nodes: Map<string, NavNode> | null = null;
+  private cache = new Map<string, NavRoute | null>();
+  /** The zones the graph and cache were built from; a new array means the content changed. */
+  private builtFrom: readonly Zone[] | null = null;
+
+  constructor(readonly content: ContentRegistry = contentRegistry) {}
+
+  neighbours(zoneId: string): string[] {
+    return [...(this.graph().get(zoneId)?.links ?? [])];
+  }
+
+  /** Every link once, as [zone, zone] pairs. */
+  links(): [string, string][] {
+    const pairs: [string, string][] = [];
+    for (const [id, node] of this.graph()) {
+      for (const other of node.links) if (id < other) pairs.push([id, other]);
+    }
+    return pairs;
+  }
+
+  /**
+   * Shortest route between two map zones that neither stops in nor walks
+   * through a blocked one, or null if there is none.
+   */
+  findPath(from: string, to: string, options: PathOptions = {}): NavRoute | null {
+    const blocked = new Set(options.blocked);
+    blocked.delete(from);  // wherever you stand, you may leave
+    const key = `${from}>${to}|${[...blocked].sort().join(",")}`;
+    this.graph();
+    if (this.cache.has(key)) return this.cache.get(key) ?? null;
+    const route = this.search(from, to, blocked);
+    if (this.cache.size >= MAX_CACHED_ROUTES) this.cache.clear();
+    this.cache.set(key, route);
+    return route;
+  }
+
+  private search(from: string, to: string, blocked: Set<string>): NavRoute | null {
+    const nodes = this.graph();
+    const start = nodes.get(from), goal = nodes.get(to);
+    if (!start || !goal || blocked.has(to)) return null;
+
+    const cost = new Map([[from, 0]]);
+    const came = new Map<string, string>();
+    const open = new Map([[from, centreDistance(start.zone, goal.zone)]]);
+    while (open.size) {
+      let current = "";
+      let best = Infinity;
+      for (const [id, estimate] of open) if (estimate < best) [current, best] = [id, estimate];
+      open.delete(current);
+      if (current === to) break;
+      const node = nodes.get(current)!;
+      for (const next of node.links) {
+        if (blocked.has(next) || [...node.crossing.get(next)!].some(id => blocked.has(id))) continue;
+        const neighbour = nodes.get(next)!;
+        const g = cost.get(current)! + centreDistance(node.zone, neighbour.zone);
+        if (g >= (cost.get(next) ?? Infinity)) continue;
+        cost.set(next, g);
+        came.set(next, current);
+        open.set(next, g + centreDistance(neighbour.zone, goal.zone));
+      }
+    }
+    if (!cost.has(to)) return null;
+
+    const zones = [to];
+    while (zones[0] !== from) zones.unshift(came.get(zones[0])!);
+    const path = zones.length > 1 ? zones.slice(1) : zones;
+    return {
+      zones,
+      waypoints: path.map(id => ({ x: nodes.get(id)!.zone.layout!.x, y: nodes.get(id)!.zone.layout!.y })),
+      length: cost.get(to)!,
+    };
+  }
+
+  private graph(): Map<string, NavNode> {
+    if (this.nodes && this.builtFrom === this.content.getZones()) return this.nodes;
+    this.builtFrom = this.content.getZones();
+    this.cache.clear();
+    const zones = this.content.getMapZones();
+    const nodes = new Map(zones.map(zone => [zone.id, { zone, links: new Set<string>(), crossing: new Map<string, Set<string>>() }]));
+    const link = (a: string, b: string) => {
+      const from = nodes.get(a), to = nodes.get(b);
+      if (!from || !to || from.links.has(b)) return;
+      const crossed = zonesCrossed(zones, from.zone, to.zone);
+      from.links.add(b);
+      to.links.add(a);
+      from.crossing.set(b, crossed);
+      to.crossing.set(a, crossed);
+    };
+    for (let i = 0; i < zones.length; i++) {
+      for (let j = i + 1; j < zones.length; j++) {
+        const [a, b] = [zones[i], zones[j]];
+        if (centreDistance(a, b) <= a.layout!.radius + b.layout!.radius + LINK_GAP) link(a.id, b.id);
+      }
+    }
+    // A gate is also a road: every zone connects to the zones it requires cleared.
+    for (const zone of zones) {
+      for (const required of zone.requiresCleared ?? []) if (nodes.has(required)) link(zone.id, required);
+    }
+    return (this.nodes = nodes);
+  }
+}
+
+const graphs = new WeakMap<ContentRegistry, NavGraph>();
+
+/** The shared graph for a registry, so every caller benefits from one route cache. */
+export function navGraphFor(content: ContentRegistry = contentRegistry): NavGraph {
+  let graph = graphs.get(content);
+  if (!graph) graphs.set(content, (graph = new NavGraph(content)));
+  return graph;
+}
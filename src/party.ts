@@ -0,0 +1,39 @@
+/**
+ * BlackRoad RPG — Party & Storage Box
+ * Up to six agents travel in the party; every other capture waits in the box.
+ */
+import type { Encounter } from "./levels/index.js";
+import type { CapturedAgent } from "./game.js";
+import { maxHpForLevel } from "./battle.js";
+import { effectiveness } from "./moves.js";
+
+export const MAX_PARTY_SIZE = 6;
+
+export type PartyChange = "swap" | "reorder" | "deposit" | "withdraw" | "release";
+
+export function createCapturedAgent(
+  encounter: Encounter, hp = maxHpForLevel(encounter.level), id = encounter.id,
+): CapturedAgent {
+  return {
+    id, name: encounter.agentName, type: encounter.type,
+    level: encounter.level, moves: [...encounter.moves],
+    hp: Math.max(1, hp), max_hp: maxHpForLevel(encounter.level),
+    xp: 0, species: encounter.id,
+  };
+}
+
+/** The lead agent is the first party slot; it opens every battle when conscious. */
+export function getLeadAgent(party: CapturedAgent[]): CapturedAgent | undefined {
+  return party[0];
+}
+
+/**
+ * Capture bonus from the lead agent: a higher-level lead steadies the capture,
+ * and a lead whose type beats the target's adds a flat bonus.
+ */
+export function leadCaptureBonus(lead: CapturedAgent | undefined, encounter: Encounter): number {
+  if (!lead || lead.hp <= 0) return 0;
+  const levelBonus = Math.max(-0.1, Math.min(0.1, (lead.level - encounter.level) * 0.02));
+  const typeBonus = effectiveness(lead.type, encounter.type) > 1 ? 0.05 : 0;
+  return levelBonus + typeBonus;
+}
@@ -0,0 +1,175 @@
+/**
+ * BlackRoad RPG — Endless Zones
+ * Seeded procedural zones past the Vault Terminus. Each depth builds a Zone
+ * from the existing types and move pools, scales levels and XP with depth,
+ * and places it on the world map.
+ */
+import type { Encounter, EncounterType, Zone } from "./levels/index.js";
+import { ENCOUNTER_TYPES } from "./levels/index.js";
+import type { ContentRegistry } from "./content.js";
+import { MAX_PLAYER_LEVEL } from "./content.js";
+import { MOVES } from "./moves.js";
+import type { MoveDef } from "./moves.js";
+import { FINAL_ZONE } from "./guardians.js";
+import { SeededRng } from "./rng.js";
+import type { Rng } from "./rng.js";
+
+export interface EndlessProgress {
+  seed: number;
+  depth: number;  // deepest zone generated so far
+}
+
+export const ENDLESS_PACK_ID = "endless";
+export const ENDLESS_REWARD = "patch-kit";
+
+const BASE_LEVEL = 22;      // the Vault Terminus' regulars
+const LEVELS_PER_DEPTH = 3;
+const XP_PER_LEVEL = 20;    // matches the authored zones
+const XP_DEPTH_BONUS = 0.1; // keeps XP growing once levels hit the cap
+
+const DIFFICULTY_LEVEL: Record<Encounter["difficulty"], number> = { trivial: -4, normal: 0, hard: 2, legendary: 8 };
+
+interface TypeTheme {
+  emoji: string;
+  color: number;
+  places: string[];
+  adjectives: string[];
+  creatures: string[];
+  lore: string[];
+}
+
+const THEMES: Record<EncounterType, TypeTheme> = {
+  logic: {
+    emoji: "🌀", color: 0xff0066,
+    places: ["Labyrinth", "Proof Halls", "Axiom Wastes", "Theorem Spire"],
+    adjectives: ["Undecidable", "Circular", "Inverted", "Tautological"],
+    creatures: ["Lemma", "Paradox", "Predicate", "Syllogism"],
+    lore: ["Every step here must be justified by the one before it.", "Contradictions roam free where the axioms ran out."],
+  },
+  gateway: {
+    emoji: "🚪", color: 0x2979ff,
+    places: ["Crossroads", "Switchyard", "Portal Maze", "Relay Fields"],
+    adjectives: ["Rerouted", "Dangling", "Forked", "Unbound"],
+    creatures: ["Packet", "Router", "Handshake", "Proxy"],
+    lore: ["Paths rewire themselves between one footstep and the next.", "Lost traffic from the Nexus drifts here and never leaves."],
+  },
+  compute: {
+    emoji: "🔥", color: 0x00e676,
+    places: ["Kiln", "Cooling Vents", "Die Fields", "Overclock Pits"],
+    adjectives: ["Throttled", "Molten", "Vectorized", "Speculative"],
+    creatures: ["Kernel", "Warp", "Shader", "Thread"],
+    lore: ["The heat never stops; only the work changes.", "Abandoned batch jobs still run here, unsupervised."],
+  },
+  vision: {
+    emoji: "🔮", color: 0xf5a623,
+    places: ["Mirror Plains", "Lens Caverns", "Spectrum Reach", "Refraction Deep"],
+    adjectives: ["Aliased", "Prismatic", "Blurred", "Foreseen"],
+    creatures: ["Pixel", "Glimmer", "Feature", "Mirage"],
+    lore: ["Nothing here looks the same twice.", "Patterns form in the light before the things that cast them."],
+  },
+  memory: {
+    emoji: "📚", color: 0x9c27b0,
+    places: ["Stacks", "Cache Ruins", "Forgotten Wing", "Heap"],
+    adjectives: ["Stale", "Evicted", "Leaked", "Persistent"],
+    creatures: ["Pointer", "Fragment", "Page", "Remnant"],
+    lore: ["Whispers of deleted records still echo in the shelves.", "What was freed here was never truly released."],
+  },
+  security: {
+    emoji: "🔐", color: 0x212121,
+    places: ["Bastion", "Quarantine", "Keyvault", "Firewall Rim"],
+    adjectives: ["Hardened", "Sandboxed", "Revoked", "Encrypted"],
+    creatures: ["Sentinel", "Warden", "Token", "Cipherling"],
+    lore: ["Every door asks for proof, and most refuse it.", "The vault's outer defences never stopped expanding."],
+  },
+};
+
+const GUARDIAN_NAMES = ["NULLA", "VECTOR", "KESTREL", "MERIDIAN", "SABLE", "HALCYON", "ORRERY", "TESSERA", "VANTA", "LATTICE"];
+
+const movePool = (type: EncounterType): MoveDef[] =>
+  Object.values(MOVES).filter(m => m.element === type).sort((a, b) => a.power - b.power);
+
+const slug = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+const clampLevel = (level: number) => Math.max(1, Math.min(MAX_PLAYER_LEVEL, level));
+
+/** Each depth draws from its own stream so generating depth 5 never depends on depths 1-4. */
+function depthRng(seed: number, depth: number): Rng {
+  return new SeededRng((seed ^ Math.imul(depth, 0x9e3779b1)) >>> 0);
+}
+
+/** Three moves, stronger ones for harder encounters, always including an attack. */
+function pickMoves(rng: Rng, type: EncounterType, difficulty: Encounter["difficulty"]): string[] {
+  const pool = movePool(type);
+  const tier = ["trivial", "normal", "hard", "legendary"].indexOf(difficulty) / 3;
+  const start = Math.floor(tier * Math.max(0, pool.length - 4));
+  const window = pool.slice(start, start + 5);
+  const picked = new Set<MoveDef>([window.filter(m => m.power > 0).pop() ?? pool[pool.length - 1]]);
+  while (picked.size < Math.min(3, window.length)) picked.add(rng.pick(window));
+  return [...picked].map(m => m.name);
+}
+
+function makeEncounter(rng: Rng, depth: number, type: EncounterType, difficulty: Encounter["difficulty"], used: Set<string>): Encounter {
+  const theme = THEMES[type];
+  let name: string;
+  do {
+    name = `${rng.pick(theme.adjectives)} ${rng.pick(theme.creatures)}`;
+  } while (used.has(name));
+  used.add(name);
+  const level = clampLevel(BASE_LEVEL + depth * LEVELS_PER_DEPTH + DIFFICULTY_LEVEL[difficulty]);
+  return {
+    id: `endless-${depth}-${slug(name)}`,
+    name, agentName: name, type, difficulty,
+    description: `${rng.pick(theme.lore)} Found at depth ${depth}.`,
+    level,
+    moves: pickMoves(rng, type, difficulty),
+    xpReward: Math.round(level * XP_PER_LEVEL * (1 + depth * XP_DEPTH_BONUS)),
+  };
+}
+
+export function endlessZoneId(depth: number): string {
+  return `endless-${depth}`;
+}
+
+/** Builds the zone at `depth` (1 = the first past the Vault Terminus). Same seed and depth, same zone. */
+export function generateZone(seed: number, depth: number): Zone {
+  if (!Number.isInteger(depth) || depth < 1) throw new Error(`Invalid endless depth ${depth}`);
+  const rng = depthRng(seed, depth);
+  const type = rng.pick(ENCOUNTER_TYPES);
+  const secondary = rng.pick(ENCOUNTER_TYPES.filter(t => t !== type));
+  const theme = THEMES[type];
+  const guardian = `${rng.pick(GUARDIAN_NAMES)}-${depth}`;  // unique, so each gets its own world entity
+  const place = `${rng.pick(theme.adjectives)} ${rng.pick(theme.places)}`;
+
+  const used = new Set<string>();
+  const encounters = [
+    makeEncounter(rng, depth, type, "trivial", used),
+    makeEncounter(rng, depth, secondary, "normal", used),
+    makeEncounter(rng, depth, type, "hard", used),
+    makeEncounter(rng, depth, type, "legendary", used),
+  ];
+  // Spiral outward from the authored map, which spans roughly ±900 units.
+  const angle = depth * 2.399963;  // golden angle
+  const distance = 1000 + depth * 250;
+  return {
+    id: endlessZoneId(depth),
+    name: `${theme.emoji} ${place}`,
+    guardian,
+    color: `#${theme.color.toString(16).padStart(6, "0").toUpperCase()}`,
+    layout: { x: Math.round(Math.cos(angle) * distance), y: Math.round(Math.sin(angle) * distance), radius: 250 },
+    description: `Depth ${depth} past the Vault. ${rng.pick(theme.lore)} ${guardian} keeps watch.`,
+    requiredLevel: clampLevel(BASE_LEVEL - 2 + depth * LEVELS_PER_DEPTH),
+    requiresCleared: [depth === 1 ? FINAL_ZONE : endlessZoneId(depth - 1)],
+    encounters,
+    reward: "Patch Kit — restores 30 HP to one party agent",
+    rewardItem: ENDLESS_REWARD,
+  };
+}
+
+/**
+ * Loads depths 1..`progress.depth` into the registry as the endless pack.
+ * Safe to call again after going deeper.
+ */
+export function loadEndlessZones(registry: ContentRegistry, progress: EndlessProgress): Zone[] {
+  const zones = Array.from({ length: progress.depth }, (_, i) => generateZone(progress.seed, i + 1));
+  if (zones.length) registry.reload({ id: ENDLESS_PACK_ID, name: "Endless", zones });
+  return zones;
+}
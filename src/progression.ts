@@ -0,0 +1,130 @@
+/**
+ * BlackRoad RPG — Progression
+ * XP tables for the player, growth curves, learnsets and evolutions
+ * for captured agents.
+ */
+import type { Encounter } from "./levels/index.js";
+import { contentRegistry } from "./levels/index.js";
+import type { ContentRegistry } from "./content.js";
+import type { CapturedAgent } from "./game.js";
+import { maxHpForLevel } from "./battle.js";
+import { assertKnownMoves } from "./moves.js";
+import { MAX_PLAYER_LEVEL } from "./content.js";
+
+export type GrowthCurve = "fast" | "medium" | "slow";
+
+export interface SpeciesGrowth {
+  curve: GrowthCurve;
+  learnset: { level: number; move: string }[];
+  evolution?: { level: number; into: string };
+}
+
+export type ProgressionStep =
+  | { kind: "level_up"; level: number }
+  | { kind: "move_learned"; move: string; forgotten?: string }
+  | { kind: "evolved"; from: string; into: string };
+
+export const MAX_AGENT_LEVEL = 50;
+export const MAX_MOVES = 4;
+
+/** XP needed to go from level N to N + 1 is `table[N - 1]`; levels past the table are capped. */
+export const PLAYER_XP_TABLE: number[] = Array.from({ length: MAX_PLAYER_LEVEL - 1 }, (_, i) => (i + 1) * 100);
+
+const CURVE_SCALE: Record<GrowthCurve, number> = { fast: 0.8, medium: 1, slow: 1.25 };
+
+const CURVE_BY_DIFFICULTY: Record<Encounter["difficulty"], GrowthCurve> = {
+  trivial: "fast", normal: "medium", hard: "slow", legendary: "slow",
+};
+
+/**
+ * Per-species overrides keyed by encounter id. Species without an entry
+ * grow on the curve for their difficulty and learn nothing new.
+ */
+export const SPECIES_GROWTH: Record<string, Partial<SpeciesGrowth>> = {
+  "paradox-daemon":    { learnset: [{ level: 6, move: "Recurse" }],          evolution: { level: 12, into: "stack-spirit" } },
+  "stack-spirit":      { learnset: [{ level: 14, move: "Axiom Strike" }] },
+  "routing-ghost":     { learnset: [{ level: 6, move: "Thread Block" }],     evolution: { level: 12, into: "deadlock-wraith" } },
+  "deadlock-wraith":   { learnset: [{ level: 15, move: "Network Surge" }] },
+  "heat-elemental":    { learnset: [{ level: 10, move: "Parallel Strike" }], evolution: { level: 16, into: "gpu-golem" } },
+  "gpu-golem":         { learnset: [{ level: 20, move: "Mass Compute" }] },
+  "pattern-mimic":     { learnset: [{ level: 13, move: "Data Ghost" }],      evolution: { level: 20, into: "anomaly-shade" } },
+  "forgotten-thought": { curve: "fast", learnset: [{ level: 14, move: "Echo Strike" }], evolution: { level: 18, into: "echo-fragment" } },
+  "echo-fragment":     { learnset: [{ level: 20, move: "Memory Flood" }],    evolution: { level: 30, into: "echo-prime" } },
+  "intrusion-daemon":  { learnset: [{ level: 26, move: "Shadow Code" }] },
+};
+
+/** Pass a game's own registry so species from its generated zones are found. */
+export function findEncounter(id: string, content: ContentRegistry = contentRegistry): Encounter | undefined {
+  return content.findEncounter(id);
+}
+
+export function getGrowth(species: string, content: ContentRegistry = contentRegistry): SpeciesGrowth {
+  const encounter = findEncounter(species, content);
+  const overrides = Object.prototype.hasOwnProperty.call(SPECIES_GROWTH, species) ? SPECIES_GROWTH[species] : {};
+  return {
+    curve: overrides.curve ?? CURVE_BY_DIFFICULTY[encounter?.difficulty ?? "normal"],
+    learnset: overrides.learnset ?? [],
+    evolution: overrides.evolution,
+  };
+}
+
+/** XP a player at `level` needs for the next level, or Infinity at the cap. */
+export function playerXpToNext(level: number, table: number[] = PLAYER_XP_TABLE): number {
+  return table[level - 1] ?? Infinity;
+}
+
+export function agentXpToNext(curve: GrowthCurve, level: number): number {
+  if (level >= MAX_AGENT_LEVEL) return Infinity;
+  return Math.round(level * level * 4 * CURVE_SCALE[curve]);
+}
+
+function learnMove(agent: CapturedAgent, move: string, steps: ProgressionStep[]) {
+  if (agent.moves.includes(move)) return;
+  const forgotten = agent.moves.length >= MAX_MOVES ? agent.moves.shift() : undefined;
+  agent.moves.push(move);
+  steps.push({ kind: "move_learned", move, forgotten });
+}
+
+/**
+ * Adds XP to a captured agent and applies every level-up, learned move and
+ * evolution it triggers, in order. HP grows with max HP on each level.
+ */
+export function awardAgentXp(agent: CapturedAgent, amount: number, content: ContentRegistry = contentRegistry): ProgressionStep[] {
+  const steps: ProgressionStep[] = [];
+  agent.xp += amount;
+  for (;;) {
+    const growth = getGrowth(agent.species, content);
+    const needed = agentXpToNext(growth.curve, agent.level);
+    if (agent.xp < needed) break;
+    agent.xp -= needed;
+    agent.level += 1;
+    const maxHp = maxHpForLevel(agent.level);
+    agent.hp += maxHp - agent.max_hp;
+    agent.max_hp = maxHp;
+    steps.push({ kind: "level_up", level: agent.level });
+
+    for (const entry of growth.learnset) {
+      if (entry.level === agent.level) learnMove(agent, entry.move, steps);
+    }
+    const into = growth.evolution && agent.level >= growth.evolution.level
+      ? findEncounter(growth.evolution.into, content)
+      : undefined;
+    if (into) {
+      steps.push({ kind: "evolved", from: agent.species, into: into.id });
+      agent.species = into.id;
+      agent.name = into.agentName;
+      agent.type = into.type;
+      learnMove(agent, into.moves[0], steps);
+    }
+  }
+  return steps;
+}
+
+// Fail at load time on learnsets or evolutions that reference missing data.
+for (const [species, growth] of Object.entries(SPECIES_GROWTH)) {
+  if (!findEncounter(species)) throw new Error(`Unknown species "${species}" in growth table`);
+  assertKnownMoves((growth.learnset ?? []).map(l => l.move), `learnset of ${species}`);
+  if (growth.evolution && !findEncounter(growth.evolution.into)) {
+    throw new Error(`Unknown evolution target "${growth.evolution.into}" for ${species}`);
+  }
+}
@@ -0,0 +1,302 @@
+/**
+ * BlackRoad RPG — Session Recording & Replay
+ * Records the seed, every input and the GameEvents it produced into a
+ * compact log, then replays it step by step to rebuild PlayerState, scrub
+ * back and forth, and flag where a newer build diverges from the recording.
+ */
+import { GameLoop } from "./game.js";
+import type { GameEvent, GameOptions, PlayerState } from "./game.js";
+import type { BattleAction } from "./battle.js";
+import type { SaveData } from "./save.js";
+import type { ProximityTrigger } from "./spatial.js";
+import { SeededRng } from "./rng.js";
+
+export const LOG_FORMAT = 1;
+
+/** Every way a player can change a GameLoop; drive the game through these to keep it replayable. */
+export type GameInput =
+  | { kind: "tick"; count: number }
+  | { kind: "enter_zone"; zone: string }
+  | { kind: "move"; x: number; y: number; z?: number }
+  | { kind: "travel"; zone: string }
+  | { kind: "cancel_travel" }
+  | { kind: "add_trigger"; trigger: ProximityTrigger }
+  | { kind: "remove_trigger"; id: string }
+  | { kind: "trigger_encounter"; encounter?: string }
+  | { kind: "challenge_guardian" }
+  | { kind: "battle_action"; action: BattleAction }
+  | { kind: "capture"; encounter: string }
+  | { kind: "grant_item"; item: string; quantity: number }
+  | { kind: "use_item"; item: string; party_index: number }
+  | { kind: "swap_party"; party_index: number; agent: string }
+  | { kind: "reorder_party"; from: number; to: number }
+  | { kind: "deposit"; party_index: number }
+  | { kind: "withdraw"; agent: string }
+  | { kind: "release"; agent: string }
+  | { kind: "heal_party" }
+  | { kind: "dialogue_start"; conversation: string }
+  | { kind: "dialogue_choose"; choice: number }
+  | { kind: "dialogue_end" }
+  | { kind: "open_endless_zone" };
+
+/** A GameEvent with nested zones, encounters, agents and items reduced to their ids. */
+export type CompactEvent = { type: GameEvent["type"] } & Record<string, unknown>;
+
+export interface LogStep {
+  input: GameInput | null;  // null for events emitted outside the recorder
+  at: number;               // ms since recording started
+  tick: number;
+  result?: unknown;
+  error?: string;
+  events: CompactEvent[];
+  checksum: string;         // PlayerState after the step
+}
+
+export interface SessionLog {
+  format: number;
+  build: string;
+  seed: number;
+  player_name: string;
+  started_at: string;
+  initial?: SaveData;
+  steps: LogStep[];
+}
+
+export interface Divergence {
+  step: number;
+  input: GameInput | null;
+  reason: "result" | "events" | "state";
+  expected: unknown;
+  actual: unknown;
+  recorded_build: string;
+  replay_build: string;
+}
+
+export interface ReplayOptions extends Omit<GameOptions, "rng"> {
+  /** Identifies the build doing the replay, reported alongside divergences. */
+  build?: string;
+}
+
+function compact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(compact);
+  if (value && typeof value === "object") {
+    const id = (value as { id?: unknown }).id;
+    if (typeof id === "string") return id;
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, compact(v)]));
+  }
+  return value;
+}
+
+/** FNV-1a over the state, ignoring achievement unlock times (wall-clock, not gameplay). */
+function checksum(player: Readonly<PlayerState>): string {
+  const { achievements, ...rest } = player;
+  const json = JSON.stringify({ ...rest, achievements: { counters: achievements.counters, unlocked: Object.keys(achievements.unlocked) } });
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < json.length; i++) {
+    hash ^= json.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+export async function applyInput(game: GameLoop, input: GameInput): Promise<unknown> {
+  switch (input.kind) {
+    case "tick": return game.tick(input.count);
+    case "enter_zone": return game.enterZone(input.zone);
+    case "move": return game.moveTo(input.x, input.y, input.z);
+    case "travel": return game.travelTo(input.zone)?.zones ?? null;
+    case "cancel_travel": return game.cancelTravel();
+    case "add_trigger": return game.addProximityTrigger(input.trigger);
+    case "remove_trigger": return game.removeProximityTrigger(input.id);
+    case "trigger_encounter": return (await game.triggerEncounter(input.encounter))?.id ?? null;
+    case "challenge_guardian": return game.challengeGuardian()?.enemy.id ?? null;
+    case "battle_action": return game.battleAction(input.action);
+    case "capture": {
+      const encounter = game.getZones().flatMap(z => z.encounters).find(e => e.id === input.encounter);
+      if (!encounter) throw new Error(`Unknown encounter "${input.encounter}"`);
+      return game.captureAgent(encounter);
+    }
+    case "grant_item": return game.grantItem(input.item, input.quantity);
+    case "use_item": return game.useItem(input.item, input.party_index);
+    case "swap_party": return game.swapPartyAgent(input.party_index, input.agent);
+    case "reorder_party": return game.reorderParty(input.from, input.to);
+    case "deposit": return game.depositAgent(input.party_index);
+    case "withdraw": return game.withdrawAgent(input.agent);
+    case "release": return game.releaseAgent(input.agent);
+    case "heal_party": return game.healParty();
+    case "dialogue_start": return game.startDialogue(input.conversation)?.node ?? null;
+    case "dialogue_choose": return game.chooseDialogue(input.choice)?.node ?? null;
+    case "dialogue_end": return game.endDialogue();
+    case "open_endless_zone": return game.openEndlessZone()?.id ?? null;
+  }
+}
+
+function createGame(seed: number, playerName: string, initial: SaveData | undefined, options: Omit<GameOptions, "rng">): GameLoop {
+  const gameOptions = { ...options, rng: new SeededRng(seed) };
+  return initial ? GameLoop.fromSave(initial, gameOptions) : new GameLoop(playerName, gameOptions);
+}
+
+// ── Recording ─────────────────────────────────────────────────────────────────
+
+export interface RecorderOptions extends Omit<GameOptions, "rng"> {
+  build?: string;
+  /** Start from this save instead of a new game. */
+  initial?: SaveData;
+}
+
+export class SessionRecorder {
+  readonly game: GameLoop;
+  private log: SessionLog;
+  private started = Date.now();
+  private pending: CompactEvent[] = [];
+  private unsubscribe: () => void;
+
+  constructor(playerName: string, seed: number, options: RecorderOptions = {}) {
+    const { build = "dev", initial, ...gameOptions } = options;
+    this.game = createGame(seed, playerName, initial, gameOptions);
+    this.log = {
+      format: LOG_FORMAT, build, seed, player_name: playerName,
+      started_at: new Date(this.started).toISOString(),
+      initial: initial && structuredClone(initial),
+      steps: [],
+    };
+    this.unsubscribe = this.game.on(event => this.pending.push(compact(event) as CompactEvent));
+  }
+
+  /** Apply an input to the game and record it with the events it caused. Errors are recorded, then rethrown. */
+  async apply(input: GameInput): Promise<unknown> {
+    this.flushExternal();
+    const step: LogStep = { input: structuredClone(input), at: Date.now() - this.started, tick: this.game.getTick(), events: [], checksum: "" };
+    try {
+      step.result = compact(await applyInput(this.game, input));
+      return step.result;
+    } catch (err) {
+      step.error = (err as Error).message;
+      throw err;
+    } finally {
+      this.push(step);
+    }
+  }
+
+  private push(step: LogStep) {
+    step.events = this.pending;
+    step.checksum = checksum(this.game.getPlayerState());
+    this.pending = [];
+    this.log.steps.push(step);
+  }
+
+  /** Events raised by calling the game directly can't be replayed; keep them visible as their own step. */
+  private flushExternal() {
+    if (!this.pending.length) return;
+    this.push({ input: null, at: Date.now() - this.started, tick: this.game.getTick(), events: [], checksum: "" });
+  }
+
+  getLog(): SessionLog {
+    this.flushExternal();
+    return structuredClone(this.log);
+  }
+
+  stop(): SessionLog {
+    this.unsubscribe();
+    return this.getLog();
+  }
+}
+
+// ── Replay ────────────────────────────────────────────────────────────────────
+
+export class SessionReplayer {
+  private game: GameLoop;
+  private pending: CompactEvent[] = [];
+  private states: PlayerState[];  // states[n] = PlayerState after n steps
+  private cursor = 0;
+  private divergence: Divergence | null = null;
+  private build: string;
+
+  constructor(readonly log: SessionLog, options: ReplayOptions = {}) {
+    if (log.format !== LOG_FORMAT) throw new Error(`Unsupported session log format ${log.format}`);
+    const { build = "dev", ...gameOptions } = options;
+    this.build = build;
+    this.game = createGame(log.seed, log.player_name, log.initial, gameOptions);
+    this.game.on(event => this.pending.push(compact(event) as CompactEvent));
+    this.states = [structuredClone(this.game.getPlayerState())];
+  }
+
+  get length(): number { return this.log.steps.length; }
+  getCursor(): number { return this.cursor; }
+  getDivergence(): Divergence | null { return this.divergence; }
+
+  /** PlayerState after the current step; a copy, safe to inspect. */
+  getState(): PlayerState {
+    return structuredClone(this.states[this.cursor]);
+  }
+
+  /** The recorded step that moves the cursor forward, if any. */
+  peek(): LogStep | undefined {
+    return this.log.steps[this.cursor];
+  }
+
+  /** Move one step forward, replaying it if it hasn't been replayed yet. */
+  async stepForward(): Promise<boolean> {
+    if (this.cursor >= this.length) return false;
+    if (this.cursor + 1 >= this.states.length) await this.replay(this.log.steps[this.cursor]);
+    this.cursor++;
+    return true;
+  }
+
+  stepBack(): boolean {
+    if (this.cursor === 0) return false;
+    this.cursor--;
+    return true;
+  }
+
+  /** Jump to the state after `step` steps; going back reuses states already rebuilt. */
+  async seek(step: number): Promise<PlayerState> {
+    const target = Math.max(0, Math.min(step, this.length));
+    if (target <= this.cursor) this.cursor = target;
+    while (this.cursor < target) await this.stepForward();
+    return this.getState();
+  }
+
+  /** Replay the whole log and return the first divergence, if any. */
+  async verify(): Promise<Divergence | null> {
+    await this.seek(this.length);
+    return this.divergence;
+  }
+
+  /**
+   * Clock-driven ticks aren't inputs, so first catch the game up to the tick
+   * the step was recorded at; that replays travel and whatever it set off.
+   * Steps of events from outside the recorder are checked by state alone,
+   * since their cause may not be replayable.
+   */
+  private async replay(step: LogStep) {
+    let result: unknown;
+    let error: string | undefined;
+    const behind = step.tick - this.game.getTick();
+    if (behind > 0) this.game.tick(behind);
+    if (step.input) {
+      try {
+        result = compact(await applyInput(this.game, step.input));
+      } catch (err) {
+        error = (err as Error).message;
+      }
+    }
+    const events = this.pending;
+    this.pending = [];
+    this.states.push(structuredClone(this.game.getPlayerState()));
+
+    if (this.divergence) return;
+    const index = this.states.length - 2;
+    const differs = (a: unknown, b: unknown) => JSON.stringify(a) !== JSON.stringify(b);
+    const report = (reason: Divergence["reason"], expected: unknown, actual: unknown) => {
+      this.divergence = { step: index, input: step.input, reason, expected, actual, recorded_build: this.log.build, replay_build: this.build };
+    };
+    if (differs([step.result, step.error], [result, error])) {
+      report("result", step.error ?? step.result, error ?? result);
+    } else if (step.input && differs(step.events, events)) {
+      report("events", step.events, events);
+    } else if (step.checksum !== checksum(this.game.getPlayerState())) {
+      report("state", step.checksum, checksum(this.game.getPlayerState()));
+    }
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * BlackRoad Interactive — Random Number Generation
+ * Injectable RNG so encounters, captures and layouts can be reproduced
+ * from a seed in tests and bug reports.
+ */
+
+export interface Rng {
+  /** Float in [0, 1). */
+  next(): number;
+  /** Integer in [0, max). */
+  int(max: number): number;
+  /** Float in [min, max). */
+  range(min: number, max: number): number;
+  pick<T>(items: readonly T[]): T;
+}
+
+abstract class BaseRng implements Rng {
+  abstract next(): number;
+
+  int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  pick<T>(items: readonly T[]): T {
+    if (!items.length) throw new Error("Cannot pick from an empty list");
+    return items[this.int(items.length)];
+  }
+}
+
+/** Mulberry32: small, fast and good enough for gameplay. */
+export class SeededRng extends BaseRng {
+  private state: number;
+
+  constructor(readonly seed: number) {
+    super();
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  getState(): number { return this.state; }
+  setState(state: number): void { this.state = state >>> 0; }
+}
+
+class MathRng extends BaseRng {
+  next(): number { return Math.random(); }
+}
+
+/** Unseeded default used when no RNG is injected. */
+export const defaultRng: Rng = new MathRng();
+
+export function createRng(seed?: number): Rng {
+  return seed === undefined ? defaultRng : new SeededRng(seed);
+}
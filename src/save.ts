@@ -0,0 +1,311 @@
+/**
+ * BlackRoad RPG — Save Games
+ * Versioned PlayerState snapshots with validation, migrations between
+ * save versions and pluggable storage backends.
+ */
+import type { PlayerState } from "./game.js";
+import { contentRegistry, getZone, ZONES } from "./levels/index.js";
+import type { ContentRegistry } from "./content.js";
+import { addItem, applyStatBoosts, emptyStats, getItem } from "./items.js";
+import type { InventoryEntry } from "./items.js";
+import { MAX_PARTY_SIZE, createCapturedAgent } from "./party.js";
+import type { ZoneProgress } from "./guardians.js";
+import { loadEndlessZones } from "./procedural.js";
+import { ACHIEVEMENTS, emptyAchievements } from "./achievements.js";
+import type { AchievementProgress } from "./achievements.js";
+
+export const SAVE_VERSION = 9;
+
+export interface SaveData {
+  version: number;
+  saved_at: string;
+  player_name: string;
+  player: PlayerState;
+}
+
+type RawSave = Record<string, unknown> & { version: number };
+
+/**
+ * Upgrades a save written by version N to version N + 1.
+ * Add an entry here whenever SAVE_VERSION is bumped.
+ */
+const MIGRATIONS: Record<number, (save: RawSave) => RawSave> = {
+  // v2: inventory, stats and completed zones; rewards are granted for zones already cleared.
+  1: save => {
+    const player = save.player as Record<string, unknown> & { agents_captured: string[] };
+    const inventory: InventoryEntry[] = [];
+    const stats = emptyStats();
+    const zones_completed = ZONES
+      .filter(z => z.encounters.every(e => player.agents_captured.includes(e.id)))
+      .map(z => z.id);
+    for (const id of zones_completed) {
+      const zone = getZone(id)!;
+      addItem(inventory, zone.rewardItem);
+      applyStatBoosts(stats, getItem(zone.rewardItem)!);
+    }
+    return { ...save, player: { ...player, inventory, stats, zones_completed } };
+  },
+  // v3: storage box; captures that overflowed the old six-agent party are recovered at full HP.
+  2: save => {
+    const player = save.player as Record<string, unknown> & { agents_captured: string[]; party: { id: string }[] };
+    const box = player.agents_captured
+      .filter(id => !player.party.some(a => a.id === id))
+      .map(id => ZONES.flatMap(z => z.encounters).find(e => e.id === id))
+      .filter(e => e !== undefined)
+      .map(e => createCapturedAgent(e));
+    return { ...save, player: { ...player, box } };
+  },
+  // v4: agent XP and species, so captured agents can level and evolve.
+  3: save => {
+    const player = save.player as Record<string, unknown> & { party: { id: string }[]; box: { id: string }[] };
+    const upgrade = (a: { id: string }) => ({ ...a, xp: 0, species: a.id });
+    return { ...save, player: { ...player, party: player.party.map(upgrade), box: player.box.map(upgrade) } };
+  },
+  // v5: per-zone progress replaces zones_completed; a completed zone meant its champion was captured.
+  4: save => {
+    const { zones_completed, ...player } = save.player as Record<string, unknown> & {
+      agents_captured: string[]; zones_completed: string[]; inventory: InventoryEntry[];
+    };
+    const zones: Record<string, ZoneProgress> = {};
+    for (const zone of ZONES) {
+      const captured = zone.encounters.map(e => e.id).filter(id => player.agents_captured.includes(id));
+      const guardian_defeated = zones_completed.includes(zone.id);
+      if (captured.length || guardian_defeated) zones[zone.id] = { captured, guardian_defeated };
+    }
+    const chapters_unlocked = player.inventory.some(e => e.item === "vault-key") ? ["final"] : [];
+    return { ...save, player: { ...player, zones, chapters_unlocked } };
+  },
+  // v6: achievements; older runs start with none and earn them from their next matching event.
+  5: save => ({ ...save, player: { ...(save.player as Record<string, unknown>), achievements: emptyAchievements() } }),
+  // v7: flags set by dialogue choices.
+  6: save => ({ ...save, player: { ...(save.player as Record<string, unknown>), dialogue_flags: [] } }),
+  // v8: seed and depth of the procedural zones past the final zone.
+  7: save => ({ ...save, player: { ...(save.player as Record<string, unknown>), endless: null } }),
+  // v9: achievements counting distinct zones; their old raw event counts are dropped and start over.
+  8: save => {
+    const player = save.player as Record<string, unknown> & { achievements: Omit<AchievementProgress, "seen"> };
+    const counters = { ...player.achievements.counters };
+    for (const def of ACHIEVEMENTS) if (def.trigger.kind === "count" && def.trigger.distinct) delete counters[def.id];
+    return { ...save, player: { ...player, achievements: { ...player.achievements, counters, seen: {} } } };
+  },
+};
+
+export function createSave(playerName: string, player: PlayerState): SaveData {
+  return {
+    version: SAVE_VERSION,
+    saved_at: new Date().toISOString(),
+    player_name: playerName,
+    player: JSON.parse(JSON.stringify(player)),
+  };
+}
+
+export function migrateSave(save: RawSave): RawSave {
+  if (save.version > SAVE_VERSION) {
+    throw new Error(`Save version ${save.version} is newer than supported version ${SAVE_VERSION}`);
+  }
+  let current = save;
+  while (current.version < SAVE_VERSION) {
+    const migrate = MIGRATIONS[current.version];
+    if (!migrate) throw new Error(`No migration from save version ${current.version}`);
+    current = { ...migrate(current), version: current.version + 1 };
+  }
+  return current;
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+const isString = (v: unknown): v is string => typeof v === "string";
+
+/** Returns a list of schema problems, with zone ids checked against `content`; empty when the save is valid. */
+export function validateSave(save: unknown, content: ContentRegistry = contentRegistry): string[] {
+  const issues: string[] = [];
+  if (!isObject(save)) return ["save is not an object"];
+  if (save.version !== SAVE_VERSION) issues.push(`version must be ${SAVE_VERSION}`);
+  if (!isString(save.saved_at)) issues.push("saved_at must be a string");
+  if (!isString(save.player_name)) issues.push("player_name must be a string");
+
+  const player = save.player;
+  if (!isObject(player)) return [...issues, "player is not an object"];
+  if (!Number.isInteger(player.level) || (player.level as number) < 1) issues.push("player.level must be a positive integer");
+  if (!isNumber(player.xp) || player.xp < 0) issues.push("player.xp must be a non-negative number");
+  if (!Array.isArray(player.agents_captured) || !player.agents_captured.every(isString)) {
+    issues.push("player.agents_captured must be a string array");
+  }
+  if (!isString(player.current_zone) || !content.getZone(player.current_zone)) {
+    issues.push(`player.current_zone "${String(player.current_zone)}" is not a known zone`);
+  }
+  const pos = player.position;
+  if (!isObject(pos) || !isNumber(pos.x) || !isNumber(pos.y) || !isNumber(pos.z)) {
+    issues.push("player.position must have numeric x, y, z");
+  }
+  for (const list of ["party", "box"]) {
+    const agents = player[list];
+    if (!Array.isArray(agents)) {
+      issues.push(`player.${list} must be an array`);
+      continue;
+    }
+    agents.forEach((agent: unknown, i) => {
+      const at = `player.${list}[${i}]`;
+      if (!isObject(agent)) return issues.push(`${at} is not an object`);
+      for (const key of ["id", "name", "type", "species"]) if (!isString(agent[key])) issues.push(`${at}.${key} must be a string`);
+      for (const key of ["level", "hp", "max_hp", "xp"]) if (!isNumber(agent[key])) issues.push(`${at}.${key} must be a number`);
+      if (!Array.isArray(agent.moves) || !agent.moves.every(isString)) issues.push(`${at}.moves must be a string array`);
+    });
+  }
+  if (Array.isArray(player.party) && player.party.length > MAX_PARTY_SIZE) {
+    issues.push(`player.party holds more than ${MAX_PARTY_SIZE} agents`);
+  }
+  if (!Array.isArray(player.inventory)) {
+    issues.push("player.inventory must be an array");
+  } else {
+    player.inventory.forEach((entry: unknown, i) => {
+      const at = `player.inventory[${i}]`;
+      if (!isObject(entry) || !isString(entry.item) || !getItem(entry.item)) return issues.push(`${at}.item is not a known item`);
+      if (!Number.isInteger(entry.quantity) || (entry.quantity as number) < 1) issues.push(`${at}.quantity must be a positive integer`);
+    });
+  }
+  const stats = player.stats;
+  if (!isObject(stats) || !Object.keys(emptyStats()).every(k => isNumber(stats[k]))) {
+    issues.push("player.stats must have numeric reason, compute, context");
+  }
+  if (!isObject(player.zones)) {
+    issues.push("player.zones must be an object");
+  } else {
+    for (const [id, progress] of Object.entries(player.zones)) {
+      const at = `player.zones["${id}"]`;
+      if (!content.getZone(id)) issues.push(`${at} is not a known zone`);
+      if (!isObject(progress) || !Array.isArray(progress.captured) || !progress.captured.every(isString)) {
+        issues.push(`${at}.captured must be a string array`);
+      } else if (typeof progress.guardian_defeated !== "boolean") {
+        issues.push(`${at}.guardian_defeated must be a boolean`);
+      } else if (progress.unlocked !== undefined && typeof progress.unlocked !== "boolean") {
+        issues.push(`${at}.unlocked must be a boolean`);
+      }
+    }
+  }
+  if (!Array.isArray(player.chapters_unlocked) || !player.chapters_unlocked.every(isString)) {
+    issues.push("player.chapters_unlocked must be a string array");
+  }
+  const achievements = player.achievements;
+  if (!isObject(achievements) || !isObject(achievements.unlocked) || !Object.values(achievements.unlocked).every(isString)) {
+    issues.push("player.achievements.unlocked must map ids to unlock times");
+  } else if (!isObject(achievements.counters) || !Object.values(achievements.counters).every(isNumber)) {
+    issues.push("player.achievements.counters must map ids to numbers");
+  } else if (!isObject(achievements.seen) || !Object.values(achievements.seen).every(v => Array.isArray(v) && v.every(isString))) {
+    issues.push("player.achievements.seen must map ids to string arrays");
+  }
+  if (!Array.isArray(player.dialogue_flags) || !player.dialogue_flags.every(isString)) {
+    issues.push("player.dialogue_flags must be a string array");
+  }
+  const endless = player.endless;
+  if (endless !== null && (!isObject(endless) || !Number.isInteger(endless.seed) || !Number.isInteger(endless.depth) || (endless.depth as number) < 1)) {
+    issues.push("player.endless must be null or have an integer seed and a positive depth");
+  }
+  return issues;
+}
+
+/**
+ * Parses, migrates and validates a save from JSON or an already-decoded
+ * object. Zones generated for the save's endless run are checked against
+ * a fork of `content`, since only the game playing them has them loaded.
+ */
+export function parseSave(raw: string | unknown, content: ContentRegistry = contentRegistry): SaveData {
+  const data = typeof raw === "string" ? JSON.parse(raw) : raw;
+  if (!isObject(data) || !isNumber(data.version)) throw new Error("Invalid save: missing version");
+  const migrated = migrateSave(data as RawSave);
+  const endless = isObject(migrated.player) ? migrated.player.endless : null;
+  if (isObject(endless) && Number.isInteger(endless.seed) && Number.isInteger(endless.depth) && (endless.depth as number) >= 1) {
+    content = content.fork();
+    loadEndlessZones(content, { seed: endless.seed as number, depth: endless.depth as number });
+  }
+  const issues = validateSave(migrated, content);
+  if (issues.length) throw new Error(`Invalid save: ${issues.join("; ")}`);
+  return migrated as unknown as SaveData;
+}
+
+// ── Storage backends ──────────────────────────────────────────────────────────
+
+export interface SaveStorage {
+  read(slot: string): Promise<string | null>;
+  write(slot: string, data: string): Promise<void>;
+  remove(slot: string): Promise<void>;
+  list(): Promise<string[]>;
+}
+
+export class MemorySaveStorage implements SaveStorage {
+  private slots = new Map<string, string>();
+
+  async read(slot: string) { return this.slots.get(slot) ?? null; }
+  async write(slot: string, data: string) { this.slots.set(slot, data); }
+  async remove(slot: string) { this.slots.delete(slot); }
+  async list() { return [...this.slots.keys()]; }
+}
+
+export class LocalSaveStorage implements SaveStorage {
+  constructor(private prefix = "blackroad-save:", private storage: Storage = window.localStorage) {}
+
+  async read(slot: string) { return this.storage.getItem(this.prefix + slot); }
+  async write(slot: string, data: string) { this.storage.setItem(this.prefix + slot, data); }
+  async remove(slot: string) { this.storage.removeItem(this.prefix + slot); }
+
+  async list() {
+    const slots: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key?.startsWith(this.prefix)) slots.push(key.slice(this.prefix.length));
+    }
+    return slots;
+  }
+}
+
+/** Node-only: one `<slot>.json` file per slot under `dir`. */
+export class FileSaveStorage implements SaveStorage {
+  constructor(private dir: string) {}
+
+  private async fs() { return import("node:fs/promises"); }
+  private async pathFor(slot: string) {
+    const { join } = await import("node:path");
+    return join(this.dir, `${encodeURIComponent(slot)}.json`);
+  }
+
+  async read(slot: string) {
+    const fs = await this.fs();
+    try {
+      return await fs.readFile(await this.pathFor(slot), "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  async write(slot: string, data: string) {
+    const fs = await this.fs();
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(await this.pathFor(slot), data, "utf8");
+  }
+
+  async remove(slot: string) {
+    const fs = await this.fs();
+    await fs.rm(await this.pathFor(slot), { force: true });
+  }
+
+  async list() {
+    const fs = await this.fs();
+    try {
+      const files = await fs.readdir(this.dir);
+      return files.filter(f => f.endsWith(".json")).map(f => decodeURIComponent(f.slice(0, -5)));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw err;
+    }
+  }
+}
+
+export async function writeSave(storage: SaveStorage, slot: string, save: SaveData): Promise<void> {
+  await storage.write(slot, JSON.stringify(save));
+}
+
+export async function readSave(storage: SaveStorage, slot: string): Promise<SaveData | null> {
+  const raw = await storage.read(slot);
+  return raw === null ? null : parseSave(raw);
+}
@@ -0,0 +1,31 @@
+/**
+ * BlackRoad Multiplayer — Server CLI
+ * Usage: npm run serve -- [--port 8080] [--seed 1]
+ */
+import { WorldServer } from "./multiplayer/server.js";
+import { listenWebSocket } from "./multiplayer/websocket.js";
+
+function arg(name: string, fallback: string): string {
+  const i = process.argv.indexOf(`--${name}`);
+  return i !== -1 && process.argv[i + 1] ? process.argv[i + 1] : fallback;
+}
+
+async function main() {
+  const server = new WorldServer({ seed: Number(arg("seed", "1")) });
+  const listener = await listenWebSocket(server, Number(arg("port", "8080")));
+  server.start();
+  console.log(`BlackRoad world server listening on ws://localhost:${listener.port}`);
+
+  const shutdown = async () => {
+    server.stop();
+    await listener.close();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch(err => {
+  console.error(err.message);
+  process.exit(1);
+});
@@ -0,0 +1,41 @@
+/**
+ * BlackRoad RPG — Balance Simulator CLI
+ * Usage: npm run simulate -- [--sessions 1000] [--seed 1] [--policy completionist]
+ *                            [--max-encounters 2000] [--out sim-report]
+ */
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { POLICIES, reportToCsv, runSimulation } from "./simulator.js";
+
+function arg(name: string, fallback: string): string {
+  const i = process.argv.indexOf(`--${name}`);
+  return i !== -1 && process.argv[i + 1] ? process.argv[i + 1] : fallback;
+}
+
+async function main() {
+  const policyName = arg("policy", "completionist");
+  const policy = POLICIES[policyName];
+  if (!policy) throw new Error(`Unknown policy "${policyName}" (expected ${Object.keys(POLICIES).join(", ")})`);
+  const out = arg("out", "sim-report");
+
+  const report = await runSimulation({
+    sessions: Number(arg("sessions", "1000")),
+    seed: Number(arg("seed", "1")),
+    maxEncounters: Number(arg("max-encounters", "2000")),
+    policy,
+  });
+
+  await mkdir(out, { recursive: true });
+  await writeFile(join(out, "report.json"), JSON.stringify(report, null, 2));
+  for (const [file, csv] of Object.entries(reportToCsv(report))) await writeFile(join(out, file), csv);
+
+  console.log(`${report.policy}: ${report.finished}/${report.sessions} sessions cleared the final zone`);
+  if (report.unreachable.length) console.log(`Unreachable zones: ${report.unreachable.join(", ")}`);
+  if (report.stalls.length) console.log(`Stalls: ${report.stalls.join(", ")}`);
+  console.log(`Report written to ${out}/`);
+}
+
+main().catch(err => {
+  console.error(err.message);
+  process.exit(1);
+});
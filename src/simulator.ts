@@ -0,0 +1,304 @@
+/**
+ * BlackRoad RPG — Balance Simulator
+ * Drives GameLoop headlessly through many seeded sessions with scripted
+ * player policies and reports progression, capture and zone statistics.
+ */
+import { GameLoop } from "./game.js";
+import type { GameEvent } from "./game.js";
+import type { Battle, BattleAction } from "./battle.js";
+import { getMove, effectiveness } from "./moves.js";
+import type { MoveDef } from "./moves.js";
+import { getGuardianEncounter, FINAL_ZONE } from "./guardians.js";
+import { SeededRng } from "./rng.js";
+import type { Zone } from "./levels/index.js";
+
+export interface SimPolicy {
+  name: string;
+  /** Zone to play in next; called before every encounter. */
+  chooseZone(game: GameLoop): string;
+  /** Whether to challenge the current zone's guardian instead of exploring. */
+  shouldChallenge(game: GameLoop): boolean;
+  chooseAction(game: GameLoop, battle: Battle): BattleAction;
+}
+
+export interface SimOptions {
+  sessions: number;
+  seed: number;
+  policy: SimPolicy;
+  /** Encounters per session before it is counted as stalled. */
+  maxEncounters: number;
+  /** Encounters spent in one zone without progress before it counts as a stall there. */
+  stallThreshold?: number;
+}
+
+export interface SimReport {
+  policy: string;
+  sessions: number;
+  seed: number;
+  finished: number;
+  levels: { level: number; reached: number; mean_encounters: number; median_encounters: number }[];
+  captures: { encounter: string; zone: string; attempts: number; successes: number; rate: number }[];
+  xp_by_zone: { zone: string; xp: number; share: number }[];
+  zones: { zone: string; entered: number; mean_encounters_to_enter: number; cleared: number; stalled: number }[];
+  unreachable: string[];
+  stalls: string[];
+}
+
+const TICKS_PER_ENCOUNTER = 60;
+
+// ── Policies ──────────────────────────────────────────────────────────────────
+
+function expectedDamage(move: MoveDef, battle: Battle): number {
+  return move.power * move.accuracy * effectiveness(move.element, battle.enemy.type);
+}
+
+/** Strongest affordable attack, or rest when nothing is affordable. */
+function attack(battle: Battle): BattleAction {
+  const agent = battle.getActiveAgent();
+  const energy = battle.getEnergy("party");
+  const moves = (agent?.moves ?? [])
+    .map(m => getMove(m))
+    .filter((m): m is MoveDef => !!m && m.power > 0 && m.cost <= energy)
+    .sort((a, b) => expectedDamage(b, battle) - expectedDamage(a, battle));
+  return moves.length ? { kind: "move", move: moves[0].name } : { kind: "rest" };
+}
+
+/** Open zones with an uncaptured encounter or an undefeated guardian left, in content order. */
+function unfinishedZones(game: GameLoop): Zone[] {
+  const { agents_captured } = game.getPlayerState();
+  return game.getZones().filter(z => !game.zoneGate(z) && (
+    !game.isZoneCleared(z.id) || z.encounters.some(e => !agents_captured.includes(e.id))
+  ));
+}
+
+function guardianReady(game: GameLoop, zone: Zone | undefined, margin: number): boolean {
+  const guardian = zone && getGuardianEncounter(zone);
+  const lead = game.getLeadAgent();
+  if (!zone || !guardian || game.isZoneCleared(zone.id) || !lead) return false;
+  const pending = zone.encounters.some(e => e !== guardian && !game.getPlayerState().agents_captured.includes(e.id));
+  return !pending && lead.level >= guardian.level - margin;
+}
+
+/**
+ * Play in `target` while it has something to fight; otherwise grind in the
+ * highest open zone that still spawns, so a dry zone isn't counted as a stall
+ * while another zone could level the party.
+ */
+function playOrGrind(game: GameLoop, target: Zone | undefined, margin: number): string {
+  const current = game.getPlayerState().current_zone;
+  if (!target) return current;
+  const spawns = (z: Zone) => game.getSpawnOdds(z.id).some(o => o.weight > 0);
+  if (spawns(target) || guardianReady(game, target, margin)) return target.id;
+  const grind = game.getZones()
+    .filter(z => !game.zoneGate(z) && spawns(z))
+    .sort((a, b) => b.requiredLevel - a.requiredLevel)[0];
+  return grind?.id ?? target.id;
+}
+
+const byLevel = (a: Zone, b: Zone) => a.requiredLevel - b.requiredLevel;
+
+/** Clears zones in level order, captures everything it meets and only challenges guardians once the lead is close in level. */
+export const completionistPolicy: SimPolicy = {
+  name: "completionist",
+  chooseZone: game => playOrGrind(game, unfinishedZones(game).sort(byLevel)[0], 2),
+  shouldChallenge: game => guardianReady(game, game.getCurrentZone(), 2),
+  chooseAction(game, battle) {
+    const captured = game.getPlayerState().agents_captured.includes(battle.enemy.id);
+    if (!battle.isBoss() && !captured) {
+      if (!battle.getActiveAgent() || battle.captureChance() >= 0.6) return { kind: "capture" };
+    }
+    return battle.getActiveAgent() ? attack(battle) : { kind: "capture" };
+  },
+};
+
+/** Heads for the highest open zone, keeps a small party and challenges guardians well under their level. */
+export const rusherPolicy: SimPolicy = {
+  name: "rusher",
+  chooseZone: game => playOrGrind(game, unfinishedZones(game).sort(byLevel).pop(), 4),
+  shouldChallenge: game => guardianReady(game, game.getCurrentZone(), 4),
+  chooseAction(game, battle) {
+    const { agents_captured, party } = game.getPlayerState();
+    const needed = party.length < 3 || !agents_captured.includes(battle.enemy.id);
+    if (!battle.isBoss() && needed && (!battle.getActiveAgent() || battle.captureChance() >= 0.4)) {
+      return { kind: "capture" };
+    }
+    return battle.getActiveAgent() ? attack(battle) : { kind: "capture" };
+  },
+};
+
+export const POLICIES: Record<string, SimPolicy> = {
+  completionist: completionistPolicy,
+  rusher: rusherPolicy,
+};
+
+// ── Sessions ──────────────────────────────────────────────────────────────────
+
+interface SessionResult {
+  finished: boolean;
+  levelAt: Map<number, number>;          // level → encounter index it was reached at
+  attempts: Map<string, [number, number]>;  // encounter → [attempts, successes]
+  xpByZone: Map<string, number>;
+  enteredAt: Map<string, number>;
+  cleared: Set<string>;
+  stalledIn?: string;
+}
+
+export async function runSession(seed: number, policy: SimPolicy, options: Pick<SimOptions, "maxEncounters" | "stallThreshold">): Promise<SessionResult> {
+  const game = new GameLoop(`sim-${seed}`, { rng: new SeededRng(seed) });
+  const result: SessionResult = {
+    finished: false,
+    levelAt: new Map([[1, 0]]),
+    attempts: new Map(),
+    xpByZone: new Map(),
+    enteredAt: new Map([[game.getPlayerState().current_zone, 0]]),
+    cleared: new Set(),
+  };
+  const stallThreshold = options.stallThreshold ?? 200;
+  let encounters = 0;
+  let sinceProgress = 0;
+
+  const addXp = (amount: number) => {
+    const zone = game.getPlayerState().current_zone;
+    result.xpByZone.set(zone, (result.xpByZone.get(zone) ?? 0) + amount);
+  };
+  const unsubscribe = game.on((event: GameEvent) => {
+    switch (event.type) {
+      case "level_up":
+        result.levelAt.set(event.new_level, encounters);
+        sinceProgress = 0;
+        break;
+      case "battle_win":
+        addXp(event.xp_gained);
+        break;
+      case "capture":
+        addXp(game.getZones().flatMap(z => z.encounters).find(e => e.id === event.agent.species)?.xpReward ?? 0);
+        sinceProgress = 0;
+        break;
+      case "zone_enter":
+        if (!result.enteredAt.has(event.zone.id)) result.enteredAt.set(event.zone.id, encounters);
+        break;
+      case "zone_complete":
+        result.cleared.add(event.zone.id);
+        sinceProgress = 0;
+        break;
+    }
+  });
+
+  while (encounters < options.maxEncounters) {
+    if (game.isZoneCleared(FINAL_ZONE)) {
+      result.finished = true;
+      break;
+    }
+    if (sinceProgress >= stallThreshold) {
+      result.stalledIn = game.getPlayerState().current_zone;
+      break;
+    }
+    game.tick(TICKS_PER_ENCOUNTER);
+    const zoneId = policy.chooseZone(game);
+    if (zoneId !== game.getPlayerState().current_zone) await game.enterZone(zoneId);
+
+    const battle = policy.shouldChallenge(game)
+      ? game.challengeGuardian()
+      : (await game.triggerEncounter()) && game.getBattle();
+    encounters++;
+    sinceProgress++;
+    if (!battle) continue;
+
+    while (battle.getOutcome() === "ongoing") {
+      const action = policy.chooseAction(game, battle);
+      if (action.kind === "capture") {
+        const counts = result.attempts.get(battle.enemy.id) ?? [0, 0];
+        counts[0]++;
+        result.attempts.set(battle.enemy.id, counts);
+      }
+      const outcome = await game.battleAction(action);
+      if (outcome === "captured") result.attempts.get(battle.enemy.id)![1]++;
+    }
+    game.healParty();
+  }
+  if (!result.finished && !result.stalledIn) result.stalledIn = game.getPlayerState().current_zone;
+  unsubscribe();
+  return result;
+}
+
+// ── Aggregation ───────────────────────────────────────────────────────────────
+
+const mean = (xs: number[]) => (xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0);
+const median = (xs: number[]) => {
+  if (!xs.length) return 0;
+  const sorted = [...xs].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+const round = (x: number) => Math.round(x * 1000) / 1000;
+
+export async function runSimulation(options: SimOptions): Promise<SimReport> {
+  const results: SessionResult[] = [];
+  for (let i = 0; i < options.sessions; i++) {
+    results.push(await runSession(options.seed + i, options.policy, options));
+  }
+  const zones = new GameLoop("sim").getZones();
+
+  const maxLevel = Math.max(...results.flatMap(r => [...r.levelAt.keys()]));
+  const levels = Array.from({ length: maxLevel }, (_, i) => i + 1).map(level => {
+    const times = results.map(r => r.levelAt.get(level)).filter((t): t is number => t !== undefined);
+    return { level, reached: times.length, mean_encounters: round(mean(times)), median_encounters: median(times) };
+  });
+
+  const captures = zones.flatMap(zone => zone.encounters.map(e => {
+    const [attempts, successes] = results.reduce(
+      ([a, s], r) => { const c = r.attempts.get(e.id) ?? [0, 0]; return [a + c[0], s + c[1]]; },
+      [0, 0],
+    );
+    return { encounter: e.id, zone: zone.id, attempts, successes, rate: attempts ? round(successes / attempts) : 0 };
+  }));
+
+  const totalXp = results.reduce((sum, r) => sum + [...r.xpByZone.values()].reduce((a, b) => a + b, 0), 0);
+  const xp_by_zone = zones.map(zone => {
+    const xp = results.reduce((sum, r) => sum + (r.xpByZone.get(zone.id) ?? 0), 0);
+    return { zone: zone.id, xp, share: totalXp ? round(xp / totalXp) : 0 };
+  });
+
+  const zoneRows = zones.map(zone => {
+    const entries = results.map(r => r.enteredAt.get(zone.id)).filter((t): t is number => t !== undefined);
+    return {
+      zone: zone.id,
+      entered: entries.length,
+      mean_encounters_to_enter: round(mean(entries)),
+      cleared: results.filter(r => r.cleared.has(zone.id)).length,
+      stalled: results.filter(r => r.stalledIn === zone.id).length,
+    };
+  });
+
+  return {
+    policy: options.policy.name,
+    sessions: options.sessions,
+    seed: options.seed,
+    finished: results.filter(r => r.finished).length,
+    levels,
+    captures,
+    xp_by_zone,
+    zones: zoneRows,
+    unreachable: zoneRows.filter(z => z.entered === 0).map(z => z.zone),
+    stalls: zoneRows.filter(z => z.stalled > 0).sort((a, b) => b.stalled - a.stalled).map(z => z.zone),
+  };
+}
+
+// ── Output ────────────────────────────────────────────────────────────────────
+
+function toCsv(rows: Record<string, string | number>[]): string {
+  if (!rows.length) return "";
+  const headers = Object.keys(rows[0]);
+  const cell = (v: string | number) => (/[",\n]/.test(String(v)) ? `"${String(v).replace(/"/g, '""')}"` : String(v));
+  return [headers.join(","), ...rows.map(r => headers.map(h => cell(r[h])).join(","))].join("\n") + "\n";
+}
+
+/** One CSV per report table, keyed by file name. */
+export function reportToCsv(report: SimReport): Record<string, string> {
+  return {
+    "levels.csv": toCsv(report.levels),
+    "captures.csv": toCsv(report.captures),
+    "xp_by_zone.csv": toCsv(report.xp_by_zone),
+    "zones.csv": toCsv(report.zones),
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * BlackRoad Interactive — Spatial Index
+ * Uniform grid of circles on the world's x/y plane. Each circle is filed
+ * under every cell it overlaps, so point and radius queries only look at
+ * nearby entries however many thousands are indexed.
+ */
+
+export interface Circle { x: number; y: number; radius: number }
+
+export interface SpatialHit<T> {
+  id: string;
+  data: T;
+  /** From the query centre to the entry's centre. */
+  distance: number;
+}
+
+interface GridEntry<T> {
+  circle: Circle;
+  data: T;
+  cells: string[];
+}
+
+export class SpatialGrid<T = undefined> {
+  private cells = new Map<string, Set<string>>();
+  private entries = new Map<string, GridEntry<T>>();
+
+  constructor(readonly cellSize = 100) {
+    if (!(cellSize > 0)) throw new Error(`Cell size must be positive, got ${cellSize}`);
+  }
+
+  get size(): number { return this.entries.size; }
+  has(id: string): boolean { return this.entries.has(id); }
+  get(id: string): (Circle & { data: T }) | undefined {
+    const entry = this.entries.get(id);
+    return entry && { ...entry.circle, data: entry.data };
+  }
+
+  /** Insert an entry, or move and resize it if `id` is already indexed. */
+  set(id: string, circle: Circle, data: T): void {
+    const cells = this.cellsFor(circle.x, circle.y, circle.radius);
+    const existing = this.entries.get(id);
+    const sameCells = existing?.cells.join(";") === cells.join(";");
+    if (existing && !sameCells) this.unfile(id, existing.cells);
+    if (!sameCells) {
+      for (const key of cells) {
+        let cell = this.cells.get(key);
+        if (!cell) this.cells.set(key, (cell = new Set()));
+        cell.add(id);
+      }
+    }
+    this.entries.set(id, { circle: { ...circle }, data, cells });
+  }
+
+  remove(id: string): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) return false;
+    this.unfile(id, entry.cells);
+    return this.entries.delete(id);
+  }
+
+  clear(): void {
+    this.cells.clear();
+    this.entries.clear();
+  }
+
+  ids(): IterableIterator<string> { return this.entries.keys(); }
+
+  /** Entries whose circle overlaps the query circle (touching counts), nearest first. */
+  queryCircle(x: number, y: number, radius: number): SpatialHit<T>[] {
+    const seen = new Set<string>();
+    const hits: SpatialHit<T>[] = [];
+    for (const key of this.cellsFor(x, y, radius)) {
+      for (const id of this.cells.get(key) ?? []) {
+        if (seen.has(id)) continue;
+        seen.add(id);
+        const entry = this.entries.get(id)!;
+        const distance = Math.hypot(entry.circle.x - x, entry.circle.y - y);
+        if (distance <= entry.circle.radius + radius) hits.push({ id, data: entry.data, distance });
+      }
+    }
+    return hits.sort((a, b) => a.distance - b.distance);
+  }
+
+  /** Entries whose circle contains the point, nearest centre first. */
+  queryPoint(x: number, y: number): SpatialHit<T>[] {
+    return this.queryCircle(x, y, 0);
+  }
+
+  private cellsFor(x: number, y: number, radius: number): string[] {
+    const size = this.cellSize;
+    const keys: string[] = [];
+    for (let cx = Math.floor((x - radius) / size); cx <= Math.floor((x + radius) / size); cx++) {
+      for (let cy = Math.floor((y - radius) / size); cy <= Math.floor((y + radius) / size); cy++) {
+        keys.push(`${cx},${cy}`);
+      }
+    }
+    return keys;
+  }
+
+  private unfile(id: string, cells: string[]) {
+    for (const key of cells) {
+      const cell = this.cells.get(key);
+      cell?.delete(id);
+      if (cell?.size === 0) this.cells.delete(key);
+    }
+  }
+}
+
+// ── Proximity triggers ──
+
+/** A circle around an encounter or guardian that fires as the player walks in and out. */
+export interface ProximityTrigger extends Circle {
+  id: string;
+  /** Encounter id the trigger belongs to. */
+  encounter: string;
+  /** Battle the encounter on walking in, as if touching it in the world. */
+  battle?: boolean;
+}
+
+export interface ProximityChange {
+  entered: ProximityTrigger[];
+  exited: ProximityTrigger[];
+}
+
+/** Triggers around a single mover, remembering which ones it is standing in. */
+export class ProximityTriggers {
+  private grid: SpatialGrid<ProximityTrigger>;
+  private inside = new Set<string>();
+
+  constructor(cellSize = 100) {
+    this.grid = new SpatialGrid(cellSize);
+  }
+
+  add(trigger: ProximityTrigger): void {
+    this.grid.set(trigger.id, trigger, { ...trigger });
+  }
+
+  remove(id: string): boolean {
+    this.inside.delete(id);
+    return this.grid.remove(id);
+  }
+
+  has(id: string): boolean { return this.grid.has(id); }
+
+  list(): ProximityTrigger[] {
+    return [...this.grid.ids()].map(id => this.grid.get(id)!.data);
+  }
+
+  /** Triggers containing the point, nearest first. */
+  at(x: number, y: number): ProximityTrigger[] {
+    return this.grid.queryPoint(x, y).map(hit => hit.data);
+  }
+
+  /** Record the mover at (x, y) and report the triggers it entered and left. */
+  update(x: number, y: number): ProximityChange {
+    const now = this.at(x, y);
+    const ids = new Set(now.map(t => t.id));
+    const entered = now.filter(t => !this.inside.has(t.id));
+    const exited = [...this.inside].filter(id => !ids.has(id)).map(id => this.grid.get(id)!.data);
+    this.inside = ids;
+    return { entered, exited };
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * BlackRoad RPG — Encounter Spawn Tables
+ * Per-zone weighted spawns: difficulty, player/encounter level gap, rare
+ * spawns, cooldowns, time-of-day conditions and repeatable wild encounters.
+ */
+import type { Encounter, Zone } from "./levels/index.js";
+import { ZONES } from "./levels/index.js";
+import type { Rng } from "./rng.js";
+
+export type DayPhase = "dawn" | "day" | "dusk" | "night";
+
+export type SpawnCondition =
+  | { kind: "time_of_day"; phases: DayPhase[] }
+  | { kind: "tick_range"; from: number; to: number }
+  | { kind: "min_player_level"; level: number };
+
+export interface SpawnEntry {
+  encounter: string;
+  weight?: number;         // overrides the difficulty weight
+  rare?: boolean;          // defaults to true for legendaries
+  cooldown?: number;       // ticks before it can spawn again
+  repeatable?: boolean;    // stays in the pool after being captured
+  conditions?: SpawnCondition[];
+}
+
+export interface SpawnContext {
+  playerLevel: number;
+  tick: number;
+  captured: string[];
+  lastSpawned: Record<string, number>;  // encounter id → tick
+  excluded?: string[];
+}
+
+export interface SpawnOdds {
+  encounter: Encounter;
+  weight: number;
+  probability: number;
+  /** Why the encounter cannot spawn right now, if it can't. */
+  blocked?: string;
+}
+
+/** Ticks in a full day cycle; each phase lasts a quarter of it. */
+export const DAY_LENGTH = 24 * 60;
+const DAY_PHASES: DayPhase[] = ["dawn", "day", "dusk", "night"];
+
+const DIFFICULTY_WEIGHT: Record<Encounter["difficulty"], number> = {
+  trivial: 4, normal: 3, hard: 2, legendary: 1,
+};
+const RARE_FACTOR = 0.1;
+
+export function dayPhase(tick: number): DayPhase {
+  const t = ((tick % DAY_LENGTH) + DAY_LENGTH) % DAY_LENGTH;
+  return DAY_PHASES[Math.floor(t / (DAY_LENGTH / 4))];
+}
+
+/**
+ * Encounters far above the player fall off quadratically; encounters below
+ * the player fade gently so low zones stay worth revisiting.
+ */
+export function levelGapFactor(playerLevel: number, encounterLevel: number): number {
+  const gap = encounterLevel - playerLevel;
+  if (gap > 0) return 1 / (1 + gap * gap * 0.1);
+  return Math.max(0.25, 1 + gap * 0.05);
+}
+
+function conditionBlock(condition: SpawnCondition, ctx: SpawnContext): string | undefined {
+  switch (condition.kind) {
+    case "time_of_day": {
+      const phase = dayPhase(ctx.tick);
+      return condition.phases.includes(phase) ? undefined : `only at ${condition.phases.join("/")} (now ${phase})`;
+    }
+    case "tick_range":
+      return ctx.tick >= condition.from && ctx.tick <= condition.to ? undefined : `only during ticks ${condition.from}-${condition.to}`;
+    case "min_player_level":
+      return ctx.playerLevel >= condition.level ? undefined : `requires player level ${condition.level}`;
+  }
+}
+
+export class SpawnTable {
+  private entries: { encounter: Encounter; spec: SpawnEntry }[];
+
+  constructor(readonly zone: Zone, specs: SpawnEntry[] = []) {
+    this.entries = zone.encounters.map(encounter => ({
+      encounter,
+      spec: specs.find(s => s.encounter === encounter.id) ?? { encounter: encounter.id },
+    }));
+  }
+
+  isRepeatable(encounterId: string): boolean {
+    return !!this.entries.find(e => e.encounter.id === encounterId)?.spec.repeatable;
+  }
+
+  /** Effective spawn odds for every encounter in the zone, blocked ones at zero. */
+  odds(ctx: SpawnContext): SpawnOdds[] {
+    const rows = this.entries.map(({ encounter, spec }): SpawnOdds => {
+      const row = { encounter, weight: 0, probability: 0 };
+      if (ctx.excluded?.includes(encounter.id)) return { ...row, blocked: "excluded" };
+      if (!spec.repeatable && ctx.captured.includes(encounter.id)) return { ...row, blocked: "already captured" };
+      const last = ctx.lastSpawned[encounter.id];
+      if (spec.cooldown && last !== undefined && ctx.tick - last < spec.cooldown) {
+        return { ...row, blocked: `cooling down for ${spec.cooldown - (ctx.tick - last)} ticks` };
+      }
+      for (const condition of spec.conditions ?? []) {
+        const blocked = conditionBlock(condition, ctx);
+        if (blocked) return { ...row, blocked };
+      }
+      const rare = spec.rare ?? encounter.difficulty === "legendary";
+      const weight = (spec.weight ?? DIFFICULTY_WEIGHT[encounter.difficulty])
+        * levelGapFactor(ctx.playerLevel, encounter.level)
+        * (rare ? RARE_FACTOR : 1);
+      return { ...row, weight };
+    });
+    const total = rows.reduce((sum, r) => sum + r.weight, 0);
+    return rows.map(r => ({ ...r, probability: total > 0 ? r.weight / total : 0 }));
+  }
+
+  roll(ctx: SpawnContext, rng: Rng): Encounter | null {
+    const rows = this.odds(ctx).filter(r => r.weight > 0);
+    if (!rows.length) return null;
+    let pick = rng.next() * rows.reduce((sum, r) => sum + r.weight, 0);
+    for (const row of rows) {
+      pick -= row.weight;
+      if (pick < 0) return row.encounter;
+    }
+    return rows[rows.length - 1].encounter;
+  }
+}
+
+/** Designer overrides per zone; encounters not listed use the defaults. */
+export const SPAWN_TABLES: Record<string, SpawnEntry[]> = {
+  "recursion-depths": [
+    { encounter: "paradox-daemon", repeatable: true },
+    { encounter: "stack-spirit", cooldown: 120 },
+  ],
+  "gateway-nexus": [
+    { encounter: "routing-ghost", repeatable: true },
+    { encounter: "deadlock-wraith", cooldown: 120 },
+  ],
+  "compute-forge": [
+    { encounter: "heat-elemental", repeatable: true, conditions: [{ kind: "time_of_day", phases: ["day", "dusk"] }] },
+  ],
+  "crystal-observatory": [
+    { encounter: "anomaly-shade", conditions: [{ kind: "time_of_day", phases: ["dusk", "night"] }] },
+  ],
+  "archive-sanctum": [
+    { encounter: "forgotten-thought", repeatable: true, weight: 6 },
+  ],
+  "vault-terminus": [
+    { encounter: "zero-day-shade", rare: true, conditions: [{ kind: "time_of_day", phases: ["night"] }] },
+  ],
+};
+
+const tables = new Map<string, SpawnTable>();
+
+export function getSpawnTable(zone: Zone): SpawnTable {
+  let table = tables.get(zone.id);
+  if (!table || table.zone !== zone) {
+    table = new SpawnTable(zone, SPAWN_TABLES[zone.id]);
+    tables.set(zone.id, table);
+  }
+  return table;
+}
+
+// Fail at load time if a spawn override names an encounter outside its zone.
+for (const [zoneId, specs] of Object.entries(SPAWN_TABLES)) {
+  const zone = ZONES.find(z => z.id === zoneId);
+  if (!zone) throw new Error(`Unknown spawn table zone "${zoneId}"`);
+  for (const spec of specs) {
+    if (!zone.encounters.some(e => e.id === spec.encounter)) {
+      throw new Error(`Spawn entry "${spec.encounter}" is not an encounter in ${zoneId}`);
+    }
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * BlackRoad Interactive — Steering Behaviours
+ * Reynolds-style steering for world agents on the x/z plane. Each behaviour
+ * returns a steering force; a profile weights several of them together and
+ * caps the result, and `integrate` turns it into motion over `dt` seconds.
+ */
+
+import * as THREE from 'three'
+import type { Rng } from './rng.js'
+
+export interface Steerable {
+  position: THREE.Vector3
+  velocity: THREE.Vector3 // units per second
+}
+
+export interface SteeringContext {
+  /** Every other agent in the world */
+  others: Steerable[]
+  maxSpeed: number
+  /** Half the world's width; agents are steered back inside it */
+  bounds: number
+  rng: Rng
+  dt: number
+}
+
+export type Behaviour = (agent: Steerable, ctx: SteeringContext) => THREE.Vector3
+
+export interface WeightedBehaviour {
+  behaviour: Behaviour
+  weight: number
+}
+
+export interface SteeringProfile {
+  maxSpeed: number // units per second
+  maxForce: number // units per second, per second
+  behaviours: WeightedBehaviour[]
+}
+
+const ZERO = () => new THREE.Vector3()
+
+const flat = (v: THREE.Vector3) => {
+  v.y = 0
+  return v
+}
+
+/** The force that turns the current velocity into `desired`. */
+const steerTo = (agent: Steerable, desired: THREE.Vector3) => flat(desired.sub(agent.velocity))
+
+function neighbours(agent: Steerable, others: Steerable[], radius: number) {
+  return others.filter(o => o !== agent && flat(o.position.clone().sub(agent.position)).length() <= radius)
+}
+
+// ── Behaviours ──
+
+export const seek = (target: THREE.Vector3): Behaviour => (agent, { maxSpeed }) =>
+  steerTo(agent, flat(target.clone().sub(agent.position)).setLength(maxSpeed))
+
+/** Run from `target` while within `radius` of it. */
+export const flee = (target: THREE.Vector3, radius: number): Behaviour => (agent, { maxSpeed }) => {
+  const away = flat(agent.position.clone().sub(target))
+  return away.length() > radius ? ZERO() : steerTo(agent, away.setLength(maxSpeed))
+}
+
+/** Seek that slows down inside `slowRadius` and stops on the target. */
+export const arrive = (target: THREE.Vector3, slowRadius: number): Behaviour => (agent, { maxSpeed }) => {
+  const offset = flat(target.clone().sub(agent.position))
+  const speed = maxSpeed * Math.min(1, offset.length() / slowRadius)
+  return steerTo(agent, offset.setLength(speed))
+}
+
+/**
+ * Drift toward a point on a circle ahead of the agent; the point slides
+ * round the circle by up to `jitter` radians a second.
+ */
+export function wander({ radius = 2, distance = 4, jitter = 3 } = {}): Behaviour {
+  const angles = new WeakMap<Steerable, number>()
+  return (agent, { maxSpeed, rng, dt }) => {
+    const angle = (angles.get(agent) ?? rng.range(0, Math.PI * 2)) + rng.range(-1, 1) * jitter * dt
+    angles.set(agent, angle)
+    const ahead = agent.velocity.lengthSq() > 0 ? flat(agent.velocity.clone()).setLength(distance) : ZERO()
+    const desired = ahead.add(new THREE.Vector3(Math.cos(angle) * radius, 0, Math.sin(angle) * radius))
+    return steerTo(agent, desired.setLength(maxSpeed))
+  }
+}
+
+/** Push away from agents closer than `radius`, harder the closer they are. */
+export const separation = (radius: number): Behaviour => (agent, { others, maxSpeed }) => {
+  const push = ZERO()
+  for (const other of neighbours(agent, others, radius)) {
+    const away = flat(agent.position.clone().sub(other.position))
+    const d = Math.max(away.length(), 0.01)
+    push.add(away.divideScalar(d * d))
+  }
+  return push.lengthSq() ? steerTo(agent, push.setLength(maxSpeed)) : ZERO()
+}
+
+/** Head for the centre of the agents within `radius`. */
+export const cohesion = (radius: number): Behaviour => (agent, ctx) => {
+  const near = neighbours(agent, ctx.others, radius)
+  if (!near.length) return ZERO()
+  const centre = near.reduce((sum, o) => sum.add(o.position), ZERO()).divideScalar(near.length)
+  return seek(centre)(agent, ctx)
+}
+
+/** Match the average heading of the agents within `radius`. */
+export const alignment = (radius: number): Behaviour => (agent, { others, maxSpeed }) => {
+  const heading = neighbours(agent, others, radius).reduce((sum, o) => sum.add(o.velocity), ZERO())
+  return heading.lengthSq() ? steerTo(agent, flat(heading).setLength(maxSpeed)) : ZERO()
+}
+
+/** Circle `centre` at `radius`, correcting drift inward or outward. */
+export const orbit = (centre: THREE.Vector3, radius: number, clockwise = false): Behaviour => (agent, { maxSpeed }) => {
+  const offset = flat(agent.position.clone().sub(centre))
+  const distance = offset.length() || 1
+  const tangent = new THREE.Vector3(-offset.z, 0, offset.x).divideScalar(distance)
+  if (clockwise) tangent.negate()
+  const correction = offset.divideScalar(distance).multiplyScalar(radius - distance)
+  return steerTo(agent, tangent.multiplyScalar(maxSpeed).add(correction).clampLength(0, maxSpeed))
+}
+
+/** Turn back toward the middle within `margin` of the world's edge. */
+export const contain = (margin = 5): Behaviour => (agent, { bounds, maxSpeed }) => {
+  const limit = bounds - margin
+  const inward = new THREE.Vector3(
+    agent.position.x > limit ? -1 : agent.position.x < -limit ? 1 : 0,
+    0,
+    agent.position.z > limit ? -1 : agent.position.z < -limit ? 1 : 0,
+  )
+  return inward.lengthSq() ? steerTo(agent, inward.setLength(maxSpeed)) : ZERO()
+}
+
+// ── Composition ──
+
+/** Weighted sum of a profile's behaviours, capped at its `maxForce`. */
+export function steer(agent: Steerable, profile: SteeringProfile, ctx: Omit<SteeringContext, 'maxSpeed'>): THREE.Vector3 {
+  const full = { ...ctx, maxSpeed: profile.maxSpeed }
+  const force = ZERO()
+  for (const { behaviour, weight } of profile.behaviours) force.addScaledVector(behaviour(agent, full), weight)
+  return force.clampLength(0, profile.maxForce)
+}
+
+/** Apply `force` for `dt` seconds: accelerate, cap speed, move. */
+export function integrate(agent: Steerable, force: THREE.Vector3, profile: SteeringProfile, dt: number) {
+  agent.velocity.addScaledVector(force, dt).clampLength(0, profile.maxSpeed)
+  agent.position.addScaledVector(agent.velocity, dt)
+}
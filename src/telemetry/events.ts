@@ -0,0 +1,53 @@
+/**
+ * BlackRoad Telemetry — Events
+ * What live sources report about agents, and parsing of the JSON they
+ * send. Agent ids are case-insensitive and normalised to lower case.
+ */
+
+export type AgentStatus = "active" | "idle" | "busy";
+
+export type TelemetryEvent =
+  | { type: "status"; agent: string; status: AgentStatus }
+  /** Tasks the agent has handled so far, in total. */
+  | { type: "tasks"; agent: string; count: number }
+  /** `count` messages sent from one agent to another since the last report. */
+  | { type: "message"; from: string; to: string; count: number };
+
+const STATUSES: readonly AgentStatus[] = ["active", "idle", "busy"];
+
+const isId = (value: unknown): value is string => typeof value === "string" && value.length > 0;
+
+function toEvent(value: unknown): TelemetryEvent {
+  const v = (value ?? {}) as Record<string, unknown>;
+  switch (v.type) {
+    case "status":
+      if (isId(v.agent) && STATUSES.includes(v.status as AgentStatus)) {
+        return { type: "status", agent: v.agent.toLowerCase(), status: v.status as AgentStatus };
+      }
+      break;
+    case "tasks":
+      if (isId(v.agent) && Number.isInteger(v.count) && (v.count as number) >= 0) {
+        return { type: "tasks", agent: v.agent.toLowerCase(), count: v.count as number };
+      }
+      break;
+    case "message": {
+      const count = v.count ?? 1;
+      if (isId(v.from) && isId(v.to) && Number.isInteger(count) && (count as number) > 0) {
+        return { type: "message", from: v.from.toLowerCase(), to: v.to.toLowerCase(), count: count as number };
+      }
+      break;
+    }
+  }
+  throw new Error(`Malformed telemetry event: ${JSON.stringify(value)}`);
+}
+
+/** One event or an array of them, as JSON; `count` on messages defaults to 1. */
+export function parseTelemetry(raw: string): TelemetryEvent[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new Error("Malformed telemetry: not JSON");
+  }
+  return (Array.isArray(data) ? data : [data]).map(toEvent);
+}
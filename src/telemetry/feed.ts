@@ -0,0 +1,159 @@
+/**
+ * BlackRoad Telemetry — Feed
+ * Keeps a source connected and hands renderers its events in batches.
+ * Between batches only the latest status and task count per agent are
+ * kept and messages between the same two agents are summed, so a source
+ * flooding faster than the page draws costs memory in proportion to the
+ * number of agents, not the number of messages.
+ */
+import { parseTelemetry } from "./events.js";
+import type { TelemetryEvent } from "./events.js";
+import type { Connector } from "./sources.js";
+
+export type FeedState = "idle" | "connecting" | "open" | "reconnecting" | "ended";
+
+export interface FeedOptions {
+  /** First reconnect delay in ms; doubles with each failed attempt up to `maxRetryMs`. */
+  retryMs?: number;
+  maxRetryMs?: number;
+  /** Batches are delivered at most this often, in ms. */
+  flushMs?: number;
+  /** Most distinct updates held between batches; the rest are dropped and counted. */
+  maxPending?: number;
+}
+
+function pendingKey(event: TelemetryEvent): string {
+  return event.type === "message" ? `message:${event.from}>${event.to}` : `${event.type}:${event.agent}`;
+}
+
+export class TelemetryFeed {
+  private listeners: ((events: TelemetryEvent[]) => void)[] = [];
+  private stateListeners: ((state: FeedState) => void)[] = [];
+  private pending = new Map<string, TelemetryEvent>();
+  private state: FeedState = "idle";
+  private disconnect: (() => void) | null = null;
+  /** Bumped on every (re)connect and stop, so callbacks from an old stream are ignored. */
+  private session = 0;
+  private attempts = 0;
+  private dropped = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private connector: Connector, private options: FeedOptions = {}) {}
+
+  /** Hear each batch of events; returns an unsubscribe. */
+  on(listener: (events: TelemetryEvent[]) => void): () => void {
+    this.listeners.push(listener);
+    return () => { this.listeners = this.listeners.filter(l => l !== listener); };
+  }
+
+  onState(listener: (state: FeedState) => void): () => void {
+    this.stateListeners.push(listener);
+    return () => { this.stateListeners = this.stateListeners.filter(l => l !== listener); };
+  }
+
+  getState(): FeedState { return this.state; }
+
+  /** Updates dropped because too many were pending. */
+  getDropped(): number { return this.dropped; }
+
+  start(): void {
+    if (this.state !== "idle" && this.state !== "ended") return;
+    this.attempts = 0;
+    this.connect();
+  }
+
+  /** Close the source; pending events are discarded. */
+  stop(): void {
+    this.session++;
+    this.disconnect?.();
+    this.disconnect = null;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.retryTimer = this.flushTimer = null;
+    this.pending.clear();
+    this.setState("idle");
+  }
+
+  private connect() {
+    const session = ++this.session;
+    const live = () => session === this.session;
+    this.retryTimer = null;
+    this.setState(this.attempts ? "reconnecting" : "connecting");
+    try {
+      const disconnect = this.connector({
+        open: () => {
+          if (!live()) return;
+          this.attempts = 0;
+          this.setState("open");
+        },
+        message: raw => { if (live()) this.receive(raw); },
+        closed: () => {
+          if (!live()) return;
+          this.session++;
+          this.disconnect = null;
+          this.scheduleRetry();
+        },
+        end: () => {
+          if (!live()) return;
+          this.session++;
+          this.disconnect = null;
+          this.flush();
+          this.setState("ended");
+        },
+      });
+      // The stream may already have closed or ended while opening.
+      if (live()) this.disconnect = disconnect;
+      else disconnect();
+    } catch (err) {
+      console.warn(`Telemetry source failed: ${(err as Error).message}`);
+      if (live()) this.scheduleRetry();
+    }
+  }
+
+  private scheduleRetry() {
+    const { retryMs = 500, maxRetryMs = 15_000 } = this.options;
+    const delay = Math.min(maxRetryMs, retryMs * 2 ** this.attempts++);
+    this.setState("reconnecting");
+    this.retryTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private receive(raw: string) {
+    let events: TelemetryEvent[];
+    try {
+      events = parseTelemetry(raw);
+    } catch (err) {
+      console.warn(`Ignoring telemetry: ${(err as Error).message}`);
+      return;
+    }
+    const { maxPending = 500 } = this.options;
+    for (const event of events) {
+      const key = pendingKey(event);
+      const held = this.pending.get(key);
+      if (!held && this.pending.size >= maxPending) {
+        this.dropped++;
+        continue;
+      }
+      if (held?.type === "message" && event.type === "message") held.count += event.count;
+      else this.pending.set(key, { ...event });
+    }
+    if (this.pending.size && !this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), this.options.flushMs ?? 100);
+    }
+  }
+
+  private flush() {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+    if (!this.pending.size) return;
+    const batch = [...this.pending.values()];
+    this.pending.clear();
+    this.listeners.forEach(l => l(batch));
+  }
+
+  private setState(state: FeedState) {
+    if (state === this.state) return;
+    this.state = state;
+    this.stateListeners.forEach(l => l(state));
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * BlackRoad Telemetry — Mock Source
+ * Plausible made-up activity for the six mesh agents, for local development
+ * without a telemetry backend: status changes, climbing task counts and
+ * bursts of messages, sent as JSON like a real stream.
+ */
+import { defaultRng } from "../rng.js";
+import type { Rng } from "../rng.js";
+import type { AgentStatus, TelemetryEvent } from "./events.js";
+import type { Connector } from "./sources.js";
+
+export const MOCK_AGENTS = ["lucidia", "alice", "octavia", "prism", "echo", "cipher"] as const;
+
+const STATUSES: readonly AgentStatus[] = ["active", "idle", "busy"];
+
+export interface MockOptions {
+  agents?: readonly string[];
+  rng?: Rng;
+  /** Time between bursts, in ms. */
+  intervalMs?: number;
+}
+
+export function mockSource({ agents = MOCK_AGENTS, rng = defaultRng, intervalMs = 250 }: MockOptions = {}): Connector {
+  if (agents.length < 2) throw new Error("The mock source needs at least two agents");
+  return handlers => {
+    const status = new Map(agents.map(agent => [agent, rng.pick(STATUSES)]));
+    const tasks = new Map(agents.map(agent => [agent, 0]));
+    const send = (events: TelemetryEvent[]) => handlers.message(JSON.stringify(events));
+
+    handlers.open();
+    send(agents.map(agent => ({ type: "status", agent, status: status.get(agent)! })));
+    const timer = setInterval(() => {
+      const events: TelemetryEvent[] = [];
+      const changed = rng.pick(agents);
+      if (rng.next() < 0.2) {
+        status.set(changed, rng.pick(STATUSES));
+        events.push({ type: "status", agent: changed, status: status.get(changed)! });
+      }
+      for (const agent of agents) {
+        // Busy agents get through work fastest; idle ones hardly at all.
+        const rate = { busy: 3, active: 1, idle: 0.1 }[status.get(agent)!];
+        const done = rng.next() < rate / 3 ? 1 + rng.int(Math.ceil(rate)) : 0;
+        if (!done) continue;
+        tasks.set(agent, tasks.get(agent)! + done);
+        events.push({ type: "tasks", agent, count: tasks.get(agent)! });
+      }
+      for (let n = rng.int(3); n >= 0; n--) {
+        const from = rng.pick(agents);
+        const to = rng.pick(agents.filter(a => a !== from));
+        events.push({ type: "message", from, to, count: 1 + rng.int(5) });
+      }
+      send(events);
+    }, intervalMs);
+    return () => clearInterval(timer);
+  };
+}
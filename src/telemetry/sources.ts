@@ -0,0 +1,106 @@
+/**
+ * BlackRoad Telemetry — Sources
+ * Connectors open one stream of telemetry messages: a WebSocket, a
+ * Server-Sent Events endpoint, or a recorded log played back in time.
+ * They don't retry; a TelemetryFeed reconnects them when they drop.
+ */
+import type { TelemetryEvent } from "./events.js";
+
+export interface ConnectorHandlers {
+  open(): void;
+  /** A JSON message: one telemetry event or an array of them. */
+  message(raw: string): void;
+  /** The stream dropped and should be reopened. */
+  closed(): void;
+  /** The stream finished for good, e.g. a replay reached its end. */
+  end(): void;
+}
+
+/** Opens a stream and returns the function that closes it. */
+export type Connector = (handlers: ConnectorHandlers) => () => void;
+
+/** Messages from a WebSocket, using the platform's client (browsers, Node 22+). */
+export function webSocketSource(url: string): Connector {
+  if (typeof WebSocket === "undefined") throw new Error("WebSocket is not available here");
+  return handlers => {
+    const socket = new WebSocket(url);
+    let closing = false;
+    socket.addEventListener("open", () => handlers.open());
+    socket.addEventListener("message", e => { if (typeof e.data === "string") handlers.message(e.data); });
+    socket.addEventListener("close", () => { if (!closing) handlers.closed(); });
+    return () => {
+      closing = true;
+      socket.close();
+    };
+  };
+}
+
+/**
+ * Messages from Server-Sent Events of type `event`. Any error closes the
+ * stream so the feed's backoff, not the browser's, decides when to retry.
+ */
+export function eventSourceSource(url: string, event = "message"): Connector {
+  if (typeof EventSource === "undefined") throw new Error("EventSource is not available here");
+  return handlers => {
+    const source = new EventSource(url);
+    let closing = false;
+    source.addEventListener("open", () => handlers.open());
+    source.addEventListener(event, e => handlers.message((e as MessageEvent<string>).data));
+    source.addEventListener("error", () => {
+      if (closing) return;
+      closing = true;
+      source.close();
+      handlers.closed();
+    });
+    return () => {
+      closing = true;
+      source.close();
+    };
+  };
+}
+
+export interface ReplayEntry {
+  /** Milliseconds since the recording started. */
+  at: number;
+  event: TelemetryEvent | TelemetryEvent[];
+}
+
+/** A recording as a JSON array of entries, or one entry per line. */
+export function parseReplayLog(text: string): ReplayEntry[] {
+  const trimmed = text.trim();
+  const entries: unknown[] = trimmed.startsWith("[")
+    ? JSON.parse(trimmed)
+    : trimmed.split("\n").filter(line => line.trim()).map(line => JSON.parse(line));
+  for (const entry of entries) {
+    const { at, event } = (entry ?? {}) as Partial<ReplayEntry>;
+    if (typeof at !== "number" || !Number.isFinite(at) || !event) {
+      throw new Error(`Malformed replay entry: ${JSON.stringify(entry)}`);
+    }
+  }
+  return (entries as ReplayEntry[]).slice().sort((a, b) => a.at - b.at);
+}
+
+/** Play a recording back at `speed` times real time, from the top again if `loop`. */
+export function replaySource(log: string | ReplayEntry[], { speed = 1, loop = false } = {}): Connector {
+  if (!(speed > 0)) throw new Error(`Replay speed must be positive, got ${speed}`);
+  const entries = typeof log === "string" ? parseReplayLog(log) : log.slice().sort((a, b) => a.at - b.at);
+  return handlers => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let i = 0;
+    const play = (from: number) => {
+      if (i >= entries.length) {
+        if (!loop || !entries.length) return handlers.end();
+        i = 0;
+        from = entries[0].at;
+      }
+      timer = setTimeout(() => {
+        const at = entries[i].at;
+        while (i < entries.length && entries[i].at === at) handlers.message(JSON.stringify(entries[i++].event));
+        play(at);
+      }, Math.max(0, entries[i].at - from) / speed);
+    };
+    handlers.open();
+    play(entries[0]?.at ?? 0);
+    return () => { if (timer) clearTimeout(timer); };
+  };
+}
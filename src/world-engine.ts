@@ -4,14 +4,24 @@
  */
 
 import * as THREE from 'three'
+import { defaultRng } from './rng.js'
+import type { Rng } from './rng.js'
+import { SimClock } from './clock.js'
+import { alignment, cohesion, contain, flee, integrate, orbit, separation, steer, wander } from './steering.js'
+import type { SteeringProfile } from './steering.js'
+import { CollisionWorld } from './collision.js'
+import type { Body, CollisionEvent, Collider } from './collision.js'
 
 export interface AgentMesh {
   id: string
   name: string
   type: 'architect' | 'dreamer' | 'operator' | 'interface' | 'hacker'
   mesh: THREE.Mesh
+  /** Simulation state; the mesh is drawn between `previous` and `position`. */
   position: THREE.Vector3
-  velocity: THREE.Vector3
+  previous: THREE.Vector3
+  velocity: THREE.Vector3 // units per second
+  phase: number
 }
 
 export interface WorldConfig {
@@ -19,6 +29,12 @@ export interface WorldConfig {
   worldSize: number
   backgroundColor: number
   gridColor: number
+  /** Seeded RNG for reproducible agent layouts; defaults to Math.random */
+  rng?: Rng
+  /** Shared simulation clock; the engine makes and drives its own if omitted */
+  clock?: SimClock
+  /** Replaces the default steering for the given agent types */
+  steering?: Partial<Record<AgentMesh['type'], SteeringProfile>>
 }
 
 const DEFAULT_CONFIG: WorldConfig = {
@@ -36,15 +52,89 @@ const AGENT_COLORS: Record<string, number> = {
   hacker:    0xf44336, // red    - Shellfish
 }
 
+const GATEWAY = new THREE.Vector3(0, 0, 0)
+
+const AGENT_COLLIDER: Collider = { shape: { kind: 'sphere', radius: 1.5 }, restitution: 0.6 }
+
+// Box around the gateway octahedron; it never moves
+const GATEWAY_BODY: Body = {
+  id: 'gateway',
+  position: { x: 0, y: 2, z: 0 },
+  collider: { shape: { kind: 'box', half: { x: 2, y: 2, z: 2 } }, fixed: true, restitution: 0.9 },
+}
+
+const STEERING: Record<AgentMesh['type'], SteeringProfile> = {
+  // Slow, deliberate laps of the gateway
+  architect: {
+    maxSpeed: 4,
+    maxForce: 3,
+    behaviours: [
+      { behaviour: orbit(GATEWAY, 18), weight: 1 },
+      { behaviour: separation(6), weight: 1.5 },
+      { behaviour: contain(), weight: 2 },
+    ],
+  },
+  // Lazy drifting that loosely follows the others
+  dreamer: {
+    maxSpeed: 3,
+    maxForce: 1.5,
+    behaviours: [
+      { behaviour: wander({ jitter: 2 }), weight: 1 },
+      { behaviour: cohesion(30), weight: 0.3 },
+      { behaviour: separation(5), weight: 1 },
+      { behaviour: contain(), weight: 2 },
+    ],
+  },
+  // Flocks with the group on a wide patrol round the gateway
+  operator: {
+    maxSpeed: 6,
+    maxForce: 4,
+    behaviours: [
+      { behaviour: alignment(20), weight: 1 },
+      { behaviour: cohesion(25), weight: 0.6 },
+      { behaviour: separation(6), weight: 1.5 },
+      { behaviour: orbit(GATEWAY, 30, true), weight: 0.4 },
+      { behaviour: contain(), weight: 2 },
+    ],
+  },
+  // Sticks close to whoever is nearby
+  interface: {
+    maxSpeed: 5,
+    maxForce: 3,
+    behaviours: [
+      { behaviour: cohesion(40), weight: 1 },
+      { behaviour: alignment(20), weight: 0.8 },
+      { behaviour: separation(8), weight: 1.2 },
+      { behaviour: contain(), weight: 2 },
+    ],
+  },
+  // Fast and erratic, keeps its distance from the gateway and everyone else
+  hacker: {
+    maxSpeed: 9,
+    maxForce: 8,
+    behaviours: [
+      { behaviour: wander({ jitter: 8 }), weight: 1 },
+      { behaviour: flee(GATEWAY, 12), weight: 1.5 },
+      { behaviour: separation(10), weight: 2 },
+      { behaviour: contain(), weight: 2 },
+    ],
+  },
+}
+
 export class BlackRoadWorldEngine {
   private scene: THREE.Scene
   private camera: THREE.PerspectiveCamera
   private renderer: THREE.WebGLRenderer
   private agents: AgentMesh[] = []
-  private clock = new THREE.Clock()
-  private animFrameId?: number
+  private clock: SimClock
+  private ownsClock: boolean
+  private unsubscribe: (() => void)[] = []
+  private collisions = new CollisionWorld({ cellSize: 10, up: 'y' })
+  private collisionListeners: ((event: CollisionEvent) => void)[] = []
 
   constructor(private container: HTMLElement, private config = DEFAULT_CONFIG) {
+    this.clock = config.clock ?? new SimClock()
+    this.ownsClock = !config.clock
     this.scene = new THREE.Scene()
     this.scene.background = new THREE.Color(config.backgroundColor)
     this.scene.fog = new THREE.Fog(config.backgroundColor, 50, 200)
@@ -116,6 +206,7 @@ export class BlackRoadWorldEngine {
   private _spawnAgents() {
     const types = Object.keys(AGENT_COLORS) as (keyof typeof AGENT_COLORS)[]
     const names = ['Octavia', 'Lucidia', 'Alice', 'Aria', 'Shellfish']
+    const rng = this.config.rng ?? defaultRng
 
     for (let i = 0; i < Math.min(this.config.agentCount, 5); i++) {
       const type = types[i] as AgentMesh['type'];
@@ -138,50 +229,90 @@ export class BlackRoadWorldEngine {
         type,
         mesh,
         position: mesh.position.clone(),
+        previous: mesh.position.clone(),
         velocity: new THREE.Vector3(
-          (Math.random() - 0.5) * 0.05,
+          rng.range(-1.5, 1.5),
           0,
-          (Math.random() - 0.5) * 0.05
+          rng.range(-1.5, 1.5)
         ),
+        phase: mesh.position.x,
       })
     }
   }
 
   start() {
-    const animate = () => {
-      this.animFrameId = requestAnimationFrame(animate)
-      const delta = this.clock.getDelta()
-      this._update(delta)
-      this.renderer.render(this.scene, this.camera)
+    if (this.unsubscribe.length) return
+    this.unsubscribe.push(
+      this.clock.onStep(dt => this._step(dt)),
+      this.clock.onFrame(alpha => {
+        this._render(alpha)
+        this.renderer.render(this.scene, this.camera)
+      }),
+    )
+    if (this.ownsClock) this.clock.start()
+  }
+
+  /**
+   * Fixed-step motion, independent of the display refresh rate. Every agent
+   * steers against the same positions before any of them moves.
+   */
+  private _step(dt: number) {
+    const ctx = {
+      others: this.agents,
+      bounds: this.config.worldSize / 2,
+      rng: this.config.rng ?? defaultRng,
+      dt,
     }
-    animate()
+    const profiles = this.agents.map(agent => this.config.steering?.[agent.type] ?? STEERING[agent.type])
+    const forces = this.agents.map((agent, i) => steer(agent, profiles[i], ctx))
+    this.agents.forEach((agent, i) => {
+      agent.previous.copy(agent.position)
+      integrate(agent, forces[i], profiles[i], dt)
+    })
+    this._collide()
+  }
+
+  /** Push overlapping agents apart and off the gateway, then tell listeners. */
+  private _collide() {
+    const bodies: Body[] = this.agents.map(agent => ({
+      id: agent.id,
+      position: agent.position,
+      velocity: agent.velocity,
+      collider: AGENT_COLLIDER,
+    }))
+    const { entered, exited } = this.collisions.step([...bodies, GATEWAY_BODY])
+    const events: CollisionEvent[] = [
+      ...entered.map(contact => ({ type: 'enter' as const, a: contact.a, b: contact.b, contact })),
+      ...exited.map(([a, b]) => ({ type: 'exit' as const, a, b, contact: null })),
+    ]
+    for (const event of events) this.collisionListeners.forEach(l => l(event))
+  }
+
+  /** Hear agents touching each other or the gateway (id `gateway`); returns an unsubscribe. */
+  onCollision(listener: (event: CollisionEvent) => void): () => void {
+    this.collisionListeners.push(listener)
+    return () => { this.collisionListeners = this.collisionListeners.filter(l => l !== listener) }
   }
 
-  private _update(delta: number) {
-    const t = this.clock.elapsedTime
+  private _render(alpha: number) {
+    const t = this.clock.getTime() + alpha * this.clock.step
 
     for (const agent of this.agents) {
-      // Orbit around center with slight wobble
-      agent.mesh.position.x += agent.velocity.x
-      agent.mesh.position.z += agent.velocity.z
+      agent.mesh.position.lerpVectors(agent.previous, agent.position, alpha)
       agent.mesh.position.y = 2 + Math.sin(t + agent.id.length) * 0.5
 
-      // Bounce off world bounds
-      const { x, z } = agent.mesh.position
-      const bound = this.config.worldSize / 2 - 5
-      if (Math.abs(x) > bound) agent.velocity.x *= -1
-      if (Math.abs(z) > bound) agent.velocity.z *= -1
-
       // Pulse emissive
       ;(agent.mesh.material as THREE.MeshStandardMaterial).emissiveIntensity =
-        0.2 + Math.sin(t * 2 + agent.position.x) * 0.15
+        0.2 + Math.sin(t * 2 + agent.phase) * 0.15
 
-      agent.mesh.rotation.y += delta
+      agent.mesh.rotation.y = t
     }
   }
 
   stop() {
-    if (this.animFrameId) cancelAnimationFrame(this.animFrameId)
+    this.unsubscribe.forEach(off => off())
+    this.unsubscribe = []
+    if (this.ownsClock) this.clock.stop()
     window.removeEventListener('resize', this._onResize)
   }
 
@@ -0,0 +1,307 @@
+/**
+ * BlackRoad Interactive — World Snapshots
+ * Complete copies of the entity world, deltas between two of them, and a
+ * compact binary encoding of both. Snapshots and deltas are plain JSON
+ * values; the binary form carries exactly the same data.
+ */
+import type { ComponentName, Components, EntitySnapshot, WorldState } from "./ecs.js";
+import type { WorldZone } from "./game_engine.js";
+
+export const SNAPSHOT_FORMAT = 1;
+
+type Vec3 = { x: number; y: number; z: number };
+
+export interface WorldSnapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  tick: number;
+  zones: WorldZone[];
+  world: WorldState;
+  /** Transforms before the last tick, so interpolation resumes where it left off. */
+  previous: Record<string, Vec3>;
+}
+
+export interface EntityChange {
+  id: string;
+  /** Components added or with any field changed, in full. */
+  set: Partial<Components>;
+  removed: ComponentName[];
+}
+
+/** Turns the snapshot at tick `from` into the one at tick `to`. */
+export interface WorldDelta {
+  format: typeof SNAPSHOT_FORMAT;
+  from: number;
+  to: number;
+  nextId: number;
+  /** Zones added or changed; the world map never loses zones. */
+  zones: WorldZone[];
+  spawned: EntitySnapshot[];
+  despawned: string[];
+  changed: EntityChange[];
+  previous: Record<string, Vec3 | null>;
+}
+
+const sameValue = (a: unknown, b: unknown) =>
+  Object.is(a, b) || (typeof a === "object" && typeof b === "object" && JSON.stringify(a) === JSON.stringify(b));
+
+function sameFields(a: object | undefined | null, b: object | undefined | null): boolean {
+  if (!a || !b) return a === b;
+  const ak = Object.keys(a), bk = Object.keys(b);
+  return ak.length === bk.length &&
+    ak.every(k => sameValue((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]));
+}
+
+export function diffSnapshots(from: WorldSnapshot, to: WorldSnapshot): WorldDelta {
+  const before = new Map(from.world.entities.map(e => [e.id, e]));
+  const after = new Set(to.world.entities.map(e => e.id));
+  const delta: WorldDelta = {
+    format: SNAPSHOT_FORMAT, from: from.tick, to: to.tick, nextId: to.world.nextId,
+    zones: to.zones.filter(z => !sameFields(z, from.zones.find(f => f.id === z.id))).map(z => ({ ...z })),
+    spawned: [], despawned: [], changed: [], previous: {},
+  };
+
+  for (const entity of to.world.entities) {
+    const old = before.get(entity.id);
+    if (!old || old.kind !== entity.kind) {
+      if (old) delta.despawned.push(entity.id);
+      delta.spawned.push(structuredClone(entity));
+      continue;
+    }
+    const change: EntityChange = { id: entity.id, set: {}, removed: [] };
+    for (const name of Object.keys(entity.components) as ComponentName[]) {
+      if (!sameFields(old.components[name], entity.components[name])) {
+        (change.set as Record<string, unknown>)[name] = { ...entity.components[name] };
+      }
+    }
+    for (const name of Object.keys(old.components) as ComponentName[]) {
+      if (!(name in entity.components)) change.removed.push(name);
+    }
+    if (Object.keys(change.set).length || change.removed.length) delta.changed.push(change);
+  }
+  for (const id of before.keys()) if (!after.has(id)) delta.despawned.push(id);
+
+  for (const [id, pos] of Object.entries(to.previous)) {
+    if (!sameFields(from.previous[id], pos)) delta.previous[id] = { ...pos };
+  }
+  for (const id of Object.keys(from.previous)) if (!(id in to.previous)) delta.previous[id] = null;
+  return delta;
+}
+
+/** A new snapshot with `delta` applied; `snapshot` must be at the delta's starting tick. */
+export function applyDelta(snapshot: WorldSnapshot, delta: WorldDelta): WorldSnapshot {
+  if (delta.format !== SNAPSHOT_FORMAT) throw new Error(`Unsupported delta format ${delta.format}`);
+  if (snapshot.tick !== delta.from) throw new Error(`Delta starts at tick ${delta.from}, snapshot is at ${snapshot.tick}`);
+
+  const zones = snapshot.zones.map(z => ({ ...z }));
+  for (const zone of delta.zones) {
+    const index = zones.findIndex(z => z.id === zone.id);
+    if (index === -1) zones.push({ ...zone });
+    else zones[index] = { ...zone };
+  }
+
+  const despawned = new Set(delta.despawned);
+  const entities = snapshot.world.entities.filter(e => !despawned.has(e.id)).map(e => structuredClone(e));
+  const byId = new Map(entities.map(e => [e.id, e]));
+  for (const change of delta.changed) {
+    const entity = byId.get(change.id);
+    if (!entity) throw new Error(`Delta changes unknown entity "${change.id}"`);
+    Object.assign(entity.components, structuredClone(change.set));
+    for (const name of change.removed) delete entity.components[name];
+  }
+  for (const entity of delta.spawned) {
+    if (byId.has(entity.id)) throw new Error(`Delta spawns existing entity "${entity.id}"`);
+    entities.push(structuredClone(entity));
+  }
+
+  const previous = structuredClone(snapshot.previous);
+  for (const [id, pos] of Object.entries(delta.previous)) {
+    if (pos) previous[id] = { ...pos };
+    else delete previous[id];
+  }
+  return { format: SNAPSHOT_FORMAT, tick: delta.to, zones, world: { nextId: delta.nextId, entities }, previous };
+}
+
+// ── Binary encoding ──
+//
+// "BRWS", format byte, payload kind byte, then a string table (every string
+// and object key once) and a single tagged value. Integers are zigzag
+// varints; other numbers are float64, so positions round-trip exactly.
+
+const MAGIC = [0x42, 0x52, 0x57, 0x53];
+const KIND_SNAPSHOT = 0;
+const KIND_DELTA = 1;
+
+const Tag = { Null: 0, False: 1, True: 2, Int: 3, Float: 4, String: 5, Array: 6, Object: 7 } as const;
+
+const MAX_VARINT_INT = 2 ** 52;
+
+class Writer {
+  private bytes = new Uint8Array(256);
+  private view = new DataView(this.bytes.buffer);
+  length = 0;
+
+  private reserve(n: number) {
+    if (this.length + n <= this.bytes.length) return;
+    const next = new Uint8Array(Math.max(this.bytes.length * 2, this.length + n));
+    next.set(this.bytes);
+    this.bytes = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  byte(b: number) { this.reserve(1); this.bytes[this.length++] = b; }
+
+  raw(data: Uint8Array) { this.reserve(data.length); this.bytes.set(data, this.length); this.length += data.length; }
+
+  varint(n: number) {
+    while (n >= 0x80) {
+      this.byte((n % 0x80) | 0x80);
+      n = Math.floor(n / 0x80);
+    }
+    this.byte(n);
+  }
+
+  float(n: number) { this.reserve(8); this.view.setFloat64(this.length, n); this.length += 8; }
+
+  finish(): Uint8Array { return this.bytes.slice(0, this.length); }
+}
+
+class Reader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  private need(n: number) {
+    if (this.offset + n > this.bytes.length) throw new Error("Truncated world snapshot data");
+  }
+
+  byte(): number { this.need(1); return this.bytes[this.offset++]; }
+
+  raw(n: number): Uint8Array { this.need(n); return this.bytes.subarray(this.offset, (this.offset += n)); }
+
+  varint(): number {
+    let n = 0, scale = 1, b: number;
+    do {
+      b = this.byte();
+      n += (b & 0x7f) * scale;
+      scale *= 0x80;
+    } while (b & 0x80);
+    return n;
+  }
+
+  float(): number { this.need(8); const n = this.view.getFloat64(this.offset); this.offset += 8; return n; }
+
+  get done(): boolean { return this.offset === this.bytes.length; }
+}
+
+function collectStrings(value: unknown, table: Map<string, number>): void {
+  const add = (s: string) => { if (!table.has(s)) table.set(s, table.size); };
+  if (typeof value === "string") add(value);
+  else if (Array.isArray(value)) value.forEach(v => collectStrings(v, table));
+  else if (value && typeof value === "object") {
+    for (const [k, v] of Object.entries(value)) {
+      if (v === undefined) continue;
+      add(k);
+      collectStrings(v, table);
+    }
+  }
+}
+
+function writeValue(w: Writer, value: unknown, table: Map<string, number>): void {
+  if (value === null) w.byte(Tag.Null);
+  else if (typeof value === "boolean") w.byte(value ? Tag.True : Tag.False);
+  else if (typeof value === "number") {
+    if (Number.isInteger(value) && Math.abs(value) < MAX_VARINT_INT && !Object.is(value, -0)) {
+      w.byte(Tag.Int);
+      w.varint(value >= 0 ? value * 2 : -value * 2 - 1);
+    } else {
+      w.byte(Tag.Float);
+      w.float(value);
+    }
+  } else if (typeof value === "string") {
+    w.byte(Tag.String);
+    w.varint(table.get(value)!);
+  } else if (Array.isArray(value)) {
+    w.byte(Tag.Array);
+    w.varint(value.length);
+    value.forEach(v => writeValue(w, v, table));
+  } else if (typeof value === "object") {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    w.byte(Tag.Object);
+    w.varint(entries.length);
+    for (const [k, v] of entries) {
+      w.varint(table.get(k)!);
+      writeValue(w, v, table);
+    }
+  } else {
+    throw new Error(`Cannot encode ${typeof value} in world snapshot data`);
+  }
+}
+
+function readValue(r: Reader, strings: string[]): unknown {
+  const str = () => {
+    const index = r.varint();
+    if (index >= strings.length) throw new Error(`Bad string index ${index} in world snapshot data`);
+    return strings[index];
+  };
+  const tag = r.byte();
+  switch (tag) {
+    case Tag.Null: return null;
+    case Tag.False: return false;
+    case Tag.True: return true;
+    case Tag.Int: { const z = r.varint(); return z % 2 === 0 ? z / 2 : -(z + 1) / 2; }
+    case Tag.Float: return r.float();
+    case Tag.String: return str();
+    case Tag.Array: return Array.from({ length: r.varint() }, () => readValue(r, strings));
+    case Tag.Object: {
+      const obj: Record<string, unknown> = {};
+      for (let i = r.varint(); i > 0; i--) {
+        const key = str();
+        obj[key] = readValue(r, strings);
+      }
+      return obj;
+    }
+    default: throw new Error(`Bad value tag ${tag} in world snapshot data`);
+  }
+}
+
+function encode(kind: number, value: unknown): Uint8Array {
+  const table = new Map<string, number>();
+  collectStrings(value, table);
+  const w = new Writer();
+  MAGIC.forEach(b => w.byte(b));
+  w.byte(SNAPSHOT_FORMAT);
+  w.byte(kind);
+  w.varint(table.size);
+  const utf8 = new TextEncoder();
+  for (const s of table.keys()) {
+    const data = utf8.encode(s);
+    w.varint(data.length);
+    w.raw(data);
+  }
+  writeValue(w, value, table);
+  return w.finish();
+}
+
+function decode(kind: number, bytes: Uint8Array): unknown {
+  const r = new Reader(bytes);
+  if (!MAGIC.every(b => r.byte() === b)) throw new Error("Not world snapshot data");
+  const format = r.byte();
+  if (format !== SNAPSHOT_FORMAT) throw new Error(`Unsupported world snapshot format ${format}`);
+  const actual = r.byte();
+  if (actual !== kind) {
+    throw new Error(`Expected a ${kind === KIND_DELTA ? "delta" : "snapshot"}, got a ${actual === KIND_DELTA ? "delta" : "snapshot"}`);
+  }
+  const utf8 = new TextDecoder();
+  const strings = Array.from({ length: r.varint() }, () => utf8.decode(r.raw(r.varint())));
+  const value = readValue(r, strings);
+  if (!r.done) throw new Error("Trailing bytes after world snapshot data");
+  return value;
+}
+
+export function encodeSnapshot(snapshot: WorldSnapshot): Uint8Array { return encode(KIND_SNAPSHOT, snapshot); }
+export function decodeSnapshot(bytes: Uint8Array): WorldSnapshot { return decode(KIND_SNAPSHOT, bytes) as WorldSnapshot; }
+export function encodeDelta(delta: WorldDelta): Uint8Array { return encode(KIND_DELTA, delta); }
+export function decodeDelta(bytes: Uint8Array): WorldDelta { return decode(KIND_DELTA, bytes) as WorldDelta; }
@@ -4,6 +4,8 @@
  * Connects to /api/worlds endpoint for live data
  */
 import * as THREE from "three";
+import { defaultRng } from "./rng.js";
+import type { Rng } from "./rng.js";
 
 interface WorldArtifact {
   id: string;
@@ -26,7 +28,7 @@ export class WorldVisualizer {
   private orbs:     Map<string, THREE.Mesh> = new Map();
   private clock = new THREE.Clock();
 
-  constructor(private container: HTMLElement) {
+  constructor(private container: HTMLElement, private rng: Rng = defaultRng) {
     this.scene    = new THREE.Scene();
     this.scene.background = new THREE.Color(0x050505);
     this.scene.fog = new THREE.Fog(0x050505, 20, 100);
@@ -61,7 +63,7 @@ export class WorldVisualizer {
       seen.add(a.id);
       if (!this.orbs.has(a.id)) {
         const color = TYPE_COLOR[a.type] ?? 0xff1d6c;
-        const geo  = new THREE.SphereGeometry(0.4 + Math.random() * 0.2, 16, 16);
+        const geo  = new THREE.SphereGeometry(this.rng.range(0.4, 0.6), 16, 16);
         const mat  = new THREE.MeshPhongMaterial({
           color, emissive: color, emissiveIntensity: 0.4, shininess: 80,
         });
@@ -71,10 +73,10 @@ export class WorldVisualizer {
         const radius = 3 + i * 0.5;
         mesh.position.set(
           Math.cos(angle) * radius,
-          1 + Math.random() * 3,
+          this.rng.range(1, 4),
           Math.sin(angle) * radius,
         );
-        mesh.userData = { artifact: a, phase: Math.random() * Math.PI * 2 };
+        mesh.userData = { artifact: a, phase: this.rng.range(0, Math.PI * 2) };
         this.scene.add(mesh);
         this.orbs.set(a.id, mesh);
       }
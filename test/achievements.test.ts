@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { ACHIEVEMENTS, emptyAchievements, trackAchievements } from "../src/achievements.js";
+import { contentRegistry } from "../src/levels/index.js";
+
+const zoneEnter = (id: string) => ({ type: "zone_enter" as const, zone: contentRegistry.getZone(id)!, fast_travel: false });
+
+describe("achievements", () => {
+  it("counts each zone once towards Explorer", () => {
+    const progress = emptyAchievements();
+    const explorer = ACHIEVEMENTS.filter(a => a.id === "explorer");
+    for (let i = 0; i < 6; i++) {
+      expect(trackAchievements(progress, zoneEnter("recursion-depths"), contentRegistry, explorer)).toEqual([]);
+      trackAchievements(progress, zoneEnter("gateway-nexus"), contentRegistry, explorer);
+    }
+    expect(progress.counters.explorer).toBe(2);
+
+    const rest = ["compute-forge", "crystal-observatory", "archive-sanctum"];
+    for (const id of rest) trackAchievements(progress, zoneEnter(id), contentRegistry, explorer);
+    expect(trackAchievements(progress, zoneEnter("vault-terminus"), contentRegistry, explorer)).toEqual(explorer);
+    expect(progress.seen.explorer).toHaveLength(6);
+  });
+
+  it("keeps counting every matching event for plain counters", () => {
+    const progress = emptyAchievements();
+    const [runaway] = ACHIEVEMENTS.filter(a => a.id === "runaway");
+    const encounter = contentRegistry.findEncounter("paradox-daemon")!;
+    let unlocked: unknown[] = [];
+    for (let i = 0; i < 5; i++) unlocked = trackAchievements(progress, { type: "battle_flee", encounter }, contentRegistry, [runaway]);
+    expect(unlocked).toEqual([runaway]);
+  });
+});
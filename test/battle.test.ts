@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { Battle } from "../src/battle.js";
+import { contentRegistry } from "../src/levels/index.js";
+import { createCapturedAgent } from "../src/party.js";
+import { SeededRng } from "../src/rng.js";
+import type { Rng } from "../src/rng.js";
+
+const daemon = contentRegistry.findEncounter("paradox-daemon")!;
+
+/** Every roll comes up 0: moves hit, effects land and the first option is picked. */
+const alwaysZero: Rng = { next: () => 0, int: () => 0, range: min => min, pick: items => items[0] };
+
+describe("Battle", () => {
+  it("refuses to start without a conscious agent", () => {
+    expect(() => new Battle(daemon, [], { playerLevel: 1 })).toThrow(/No conscious agent/);
+    const fainted = { ...createCapturedAgent(daemon), hp: 0 };
+    expect(() => new Battle(daemon, [fainted], { playerLevel: 1 })).toThrow(/No conscious agent/);
+  });
+
+  it("sends out the first conscious agent", () => {
+    const fainted = { ...createCapturedAgent(daemon), hp: 0 };
+    const ready = createCapturedAgent(daemon, undefined, "ready");
+    const battle = new Battle(daemon, [fainted, ready], { playerLevel: 1, rng: new SeededRng(1) });
+    expect(battle.getActiveAgent()).toBe(ready);
+  });
+
+  it("makes a stunned side lose its next action even when stunned by the second actor", () => {
+    const agent = { ...createCapturedAgent(daemon), level: 10, moves: ["Paradox Twist"] };
+    const enemy = { ...daemon, moves: ["Logic Trap"] };
+    const battle = new Battle(enemy, [agent], { playerLevel: 10, rng: alwaysZero });
+
+    const first = battle.act({ kind: "move", move: "Paradox Twist" });
+    expect(first.map(e => e.kind)).toEqual(["move", "move", "status"]);
+    expect(battle.getStatuses("party").get("stun")).toBe(1);
+
+    const second = battle.act({ kind: "move", move: "Paradox Twist" });
+    expect(second[0]).toMatchObject({ kind: "stunned", actor: "party" });
+    expect(second.filter(e => e.kind === "move" && e.actor === "party")).toHaveLength(0);
+  });
+
+  it("counts a multi-turn stun down once per lost action", () => {
+    const agent = { ...createCapturedAgent(daemon), level: 10, moves: ["Deadlock", "Paradox Twist"] };
+    const battle = new Battle(daemon, [agent], { playerLevel: 10, rng: alwaysZero });
+    // The party acts first, so the enemy loses its action this turn and the next.
+    const lost = [battle.act({ kind: "move", move: "Deadlock" })];
+    for (let i = 0; i < 2; i++) lost.push(battle.act({ kind: "move", move: "Paradox Twist" }));
+    expect(lost.map(log => log.some(e => e.kind === "stunned" && e.actor === "enemy"))).toEqual([true, true, false]);
+  });
+});
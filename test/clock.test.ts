@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { SimClock } from "../src/clock.js";
+
+// Quarter-second steps keep the accumulator's arithmetic exact.
+const newClock = (options = {}) => new SimClock({ step: 0.25, ...options });
+
+describe("SimClock", () => {
+  it("accumulates frame time into whole fixed steps", () => {
+    const clock = newClock();
+    const steps: [number, number][] = [];
+    clock.onStep((dt, tick) => steps.push([dt, tick]));
+    expect(clock.advance(0.125)).toBe(0);
+    expect(clock.alpha).toBe(0.5);
+    expect(clock.advance(0.5)).toBe(2);
+    expect(steps).toEqual([[0.25, 1], [0.25, 2]]);
+    expect(clock.alpha).toBe(0.5);
+    expect(clock.getTime()).toBe(0.5);
+  });
+
+  it("reports the interpolation factor to frame listeners after the steps", () => {
+    const clock = newClock();
+    const seen: string[] = [];
+    clock.onStep((_, tick) => seen.push(`step ${tick}`));
+    const off = clock.onFrame(alpha => seen.push(`frame ${alpha}`));
+    clock.advance(0.3125);
+    off();
+    clock.advance(1);
+    expect(seen).toEqual(["step 1", "frame 0.25", "step 2", "step 3", "step 4", "step 5"]);
+  });
+
+  it("caps the steps run per frame and drops the time it couldn't catch up on", () => {
+    const clock = newClock({ maxStepsPerFrame: 3 });
+    expect(clock.advance(10.125)).toBe(3);
+    expect(clock.getTick()).toBe(3);
+    expect(clock.alpha).toBe(0.5);
+    expect(clock.advance(0)).toBe(0);
+  });
+
+  it("runs no steps while paused, and doesn't bank the paused time", () => {
+    const clock = newClock();
+    clock.pause();
+    expect(clock.isPaused()).toBe(true);
+    expect(clock.advance(1)).toBe(0);
+    clock.resume();
+    expect(clock.advance(0.25)).toBe(1);
+    clock.pause();
+    clock.runSteps(2);
+    expect(clock.getTick()).toBe(3);
+  });
+
+  it("scales frame time by the time scale", () => {
+    const clock = newClock({ timeScale: 2 });
+    expect(clock.advance(0.5)).toBe(4);
+    clock.setTimeScale(0.5);
+    expect(clock.advance(0.5)).toBe(1);
+    clock.setTimeScale(0);
+    expect(clock.advance(5)).toBe(0);
+    expect(() => clock.setTimeScale(-1)).toThrow(/non-negative/);
+  });
+
+  it("rejects a step that isn't positive", () => {
+    expect(() => new SimClock({ step: 0 })).toThrow(/must be positive/);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { CollisionWorld, intersect, respond } from "../src/collision.js";
+import type { Body, Collider } from "../src/collision.js";
+
+const sphere = (id: string, x: number, radius = 1, extra: Partial<Collider> = {}): Body => ({
+  id, position: { x, y: 0, z: 0 }, collider: { shape: { kind: "sphere", radius }, ...extra },
+});
+
+const box = (id: string, x: number, half = 1, extra: Partial<Collider> = {}): Body => ({
+  id, position: { x, y: 0, z: 0 }, collider: { shape: { kind: "box", half: { x: half, y: half, z: half } }, ...extra },
+});
+
+describe("intersect", () => {
+  it("finds overlapping spheres with a normal from a toward b", () => {
+    expect(intersect(sphere("a", 0), sphere("b", 1.5))).toMatchObject({ normal: { x: 1, y: 0, z: 0 }, depth: 0.5, trigger: false });
+    expect(intersect(sphere("a", 0), sphere("b", 3))).toBeNull();
+  });
+
+  it("counts touching as a contact", () => {
+    expect(intersect(sphere("a", 0), sphere("b", 2))?.depth).toBe(0);
+  });
+
+  it("keeps the normal pointing from a to b whichever shape comes first", () => {
+    expect(intersect(sphere("s", 0), box("b", 1.5))?.normal.x).toBe(1);
+    expect(intersect(box("b", 1.5), sphere("s", 0))?.normal.x).toBe(-1);
+    expect(intersect(box("a", 0), box("b", 1.5))).toMatchObject({ normal: { x: 1 }, depth: 0.5 });
+  });
+
+  it("marks contacts with a trigger on either side", () => {
+    expect(intersect(sphere("a", 0, 1, { trigger: true }), sphere("b", 1))?.trigger).toBe(true);
+  });
+});
+
+describe("respond", () => {
+  it("pushes solid bodies apart evenly and bounces their velocities", () => {
+    const a = { ...sphere("a", 0), velocity: { x: 1, y: 0, z: 0 } };
+    const b = { ...sphere("b", 1.5), velocity: { x: -1, y: 0, z: 0 } };
+    respond(a, b, intersect(a, b)!);
+    expect(a.position.x).toBeCloseTo(-0.25);
+    expect(b.position.x).toBeCloseTo(1.75);
+    expect(a.velocity.x).toBeLessThan(0);
+    expect(b.velocity.x).toBeGreaterThan(0);
+  });
+
+  it("never moves fixed bodies or anything touching a trigger", () => {
+    const wall = box("wall", 1.5, 1, { fixed: true });
+    const ball = sphere("ball", 0);
+    respond(ball, wall, intersect(ball, wall)!);
+    expect(wall.position.x).toBe(1.5);
+    expect(ball.position.x).toBeCloseTo(-0.5);
+
+    const zone = sphere("zone", 1, 1, { trigger: true });
+    const walker = sphere("walker", 0);
+    respond(walker, zone, intersect(walker, zone)!);
+    expect([walker.position.x, zone.position.x]).toEqual([0, 1]);
+  });
+});
+
+describe("CollisionWorld", () => {
+  it("reports pairs as they start and stop touching", () => {
+    const world = new CollisionWorld();
+    const a = sphere("a", 0, 1, { trigger: true });
+    const b = sphere("b", 10);
+    expect(world.step([a, b]).entered).toEqual([]);
+    b.position.x = 1;
+    const report = world.step([a, b]);
+    expect(report.entered.map(c => [c.a, c.b])).toEqual([["a", "b"]]);
+    expect(world.isTouching("b", "a")).toBe(true);
+    expect(world.step([a, b]).entered).toEqual([]);
+    expect(world.step([a]).exited).toEqual([["a", "b"]]);
+    expect(world.isTouching("a", "b")).toBe(false);
+  });
+
+  it("forgets contacts on reset", () => {
+    const world = new CollisionWorld();
+    const bodies = [sphere("a", 0, 1, { trigger: true }), sphere("b", 1)];
+    world.step(bodies);
+    world.reset();
+    expect(world.step(bodies).entered).toHaveLength(1);
+  });
+});
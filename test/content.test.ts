@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { ContentRegistry, validatePack } from "../src/content.js";
+import type { ContentPack } from "../src/content.js";
+import { CORE_PACK, ZONES } from "../src/levels/index.js";
+import type { Zone } from "../src/levels/index.js";
+
+function zone(id: string, requiredLevel: number, extra: Partial<Zone> = {}): Zone {
+  return {
+    id, name: id, guardian: id.toUpperCase(), color: "#123456", description: "A test zone.",
+    reward: "Nothing", rewardItem: "wisdom-shard", requiredLevel,
+    encounters: [
+      { id: `${id}-wild`, name: "Wild", agentName: "Wild", type: "logic", difficulty: "normal", description: "Wild.", level: 2, moves: ["Paradox Twist"], xpReward: 10 },
+      { id: `${id}-boss`, name: "Boss", agentName: "Boss", type: "logic", difficulty: "legendary", description: "Boss.", level: 5, moves: ["Paradox Twist"], xpReward: 50 },
+    ],
+    ...extra,
+  };
+}
+
+const pack = (...zones: Zone[]): ContentPack => ({ id: "test", zones });
+
+describe("content packs", () => {
+  it("loads the core zones from their JSON pack", () => {
+    expect(CORE_PACK.id).toBe("core");
+    expect(ZONES).toBe(CORE_PACK.zones);
+    expect(ZONES.map(z => z.id)).toContain("vault-terminus");
+    expect(validatePack(CORE_PACK)).toEqual([]);
+  });
+
+  it("rejects a zone needing a lower level than a zone it requires cleared", () => {
+    const issues = validatePack(pack(zone("low", 1), zone("high", 10), zone("after", 5, { requiresCleared: ["high"] })));
+    expect(issues).toEqual([`zone "after" needs level 5, below the level 10 of "high" it requires clearing`]);
+  });
+
+  it("rejects zones no player could level up to", () => {
+    const issues = validatePack(pack(zone("first", 3), zone("next", 4, { requiresCleared: ["first"] })));
+    expect(issues).toEqual([
+      `zone "first" can never be reached: it needs level 3 but no XP can be earned before it`,
+      `zone "next" requires clearing "first", which can never be reached`,
+    ]);
+  });
+
+  it("accepts a higher-level zone once XP is on offer before it", () => {
+    expect(validatePack(pack(zone("first", 1), zone("next", 12, { requiresCleared: ["first"] })))).toEqual([]);
+    const registry = new ContentRegistry([CORE_PACK]);
+    expect(() => registry.load(pack(zone("extra", 40, { requiresCleared: ["vault-terminus"] })))).not.toThrow();
+  });
+});
+
+describe("ContentRegistry.fork", () => {
+  it("serves the parent's zones live, plus its own packs, without touching the parent", () => {
+    const parent = new ContentRegistry([CORE_PACK]);
+    const child = parent.fork();
+    child.load(pack(zone("mine", 1)));
+    expect(child.getZone("mine")).toBeDefined();
+    expect(parent.getZone("mine")).toBeUndefined();
+
+    const before = child.getZones();
+    expect(child.getZones()).toBe(before);
+    parent.load({ id: "later", zones: [zone("later", 1)] });
+    expect(child.getZones()).not.toBe(before);
+    expect(child.getZone("later")).toBeDefined();
+    expect(child.getPacks().map(p => p.id)).toEqual(["core", "later", "test"]);
+  });
+
+  it("reports parent changes to its listeners and stops when unsubscribed", () => {
+    const parent = new ContentRegistry([CORE_PACK]);
+    const child = parent.fork();
+    const heard: string[][] = [];
+    const off = child.onChange(packs => heard.push(packs.map(p => p.id)));
+    parent.load({ id: "later", zones: [zone("later", 1)] });
+    off();
+    parent.unload("later");
+    expect(heard).toEqual([["core", "later"]]);
+  });
+
+  it("only unloads its own packs", () => {
+    const child = new ContentRegistry([CORE_PACK]).fork();
+    expect(child.unload("core")).toBe(false);
+    expect(child.getZone("recursion-depths")).toBeDefined();
+  });
+});
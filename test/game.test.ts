@@ -0,0 +1,224 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GameLoop, STARTER_ENCOUNTER, TALK_RADIUS } from "../src/game.js";
+import { encounterSpots } from "../src/game_engine.js";
+import { getGuardian, getGuardianEncounter } from "../src/guardians.js";
+import { countItem } from "../src/items.js";
+import { contentRegistry } from "../src/levels/index.js";
+import { ENDLESS_PACK_ID } from "../src/procedural.js";
+import { SeededRng } from "../src/rng.js";
+
+beforeEach(() => { vi.spyOn(console, "warn").mockImplementation(() => {}); });
+afterEach(() => { vi.restoreAllMocks(); });
+
+const newGame = (seed = 1) => new GameLoop("tester", { rng: new SeededRng(seed) });
+
+describe("GameLoop battles", () => {
+  it("starts a run with a conscious starter, already counted as captured", () => {
+    const { party, agents_captured, zones } = newGame().getPlayerState();
+    expect(party.map(a => a.id)).toEqual([STARTER_ENCOUNTER]);
+    expect(party[0].hp).toBeGreaterThan(0);
+    expect(agents_captured).toEqual([STARTER_ENCOUNTER]);
+    expect(zones["recursion-depths"].captured).toEqual([STARTER_ENCOUNTER]);
+  });
+
+  it("refuses battles once the whole party has fainted", async () => {
+    const game = newGame();
+    for (const agent of game.getPlayerState().party) agent.hp = 0;
+    expect(await game.triggerEncounter()).toBeNull();
+    expect(game.getBattle()).toBeNull();
+    const zone = game.getCurrentZone()!;
+    expect(() => game.startBattle(zone.encounters[1])).toThrow(/No conscious agent/);
+    game.healParty();
+    expect(await game.triggerEncounter()).not.toBeNull();
+  });
+
+  it("gives the starter to older saves without any agent", () => {
+    const save = newGame().toSave();
+    save.player.party = [];
+    save.player.agents_captured = [];
+    const game = GameLoop.fromSave(JSON.stringify(save));
+    expect(game.getPlayerState().party.map(a => a.id)).toEqual([STARTER_ENCOUNTER]);
+  });
+});
+
+describe("GameLoop battle rules", () => {
+  const encounter = (id: string) => contentRegistry.findEncounter(id)!;
+
+  it("won't capture an encounter from another, gated zone", async () => {
+    const game = newGame();
+    expect(await game.captureAgent(encounter("cipher-final"))).toBe(false);
+    expect(game.getBattle()).toBeNull();
+    expect(game.getPlayerState().agents_captured).not.toContain("cipher-final");
+    expect(() => game.startBattle(encounter("routing-ghost"))).toThrow(/not in this zone/);
+  });
+
+  it("only fights an uncleared guardian as a boss once the zone's other encounters are captured", async () => {
+    const game = newGame();
+    const zone = game.getCurrentZone()!;
+    const guardian = getGuardianEncounter(zone)!;
+    expect(await game.captureAgent(guardian)).toBe(false);
+    expect(() => game.startBattle(guardian)).toThrow(/must be challenged/);
+    expect(() => game.startBattle(guardian, getGuardian(zone))).toThrow(/Capture Stack Spirit/);
+    expect(() => game.startBattle(encounter("stack-spirit"), getGuardian(zone))).toThrow(/not a guardian/);
+    expect(game.getBattle()).toBeNull();
+  });
+
+  it("won't capture one encounter while battling another", async () => {
+    const game = newGame();
+    game.startBattle(encounter("stack-spirit"));
+    expect(await game.captureAgent(encounter("paradox-daemon"))).toBe(false);
+    expect(game.getBattle()?.getTurn()).toBe(0);
+  });
+
+  it("meets the encounter first when capturing outside a battle", async () => {
+    const game = newGame();
+    const starts: string[] = [];
+    game.on(e => { if (e.type === "battle_start") starts.push(e.encounter.id); });
+    await game.captureAgent(encounter("stack-spirit"));
+    expect(starts).toEqual(["stack-spirit"]);
+  });
+});
+
+describe("GameLoop.triggerEncounter", () => {
+  it("meets a requested encounter from the current zone", async () => {
+    expect((await newGame().triggerEncounter("stack-spirit"))?.id).toBe("stack-spirit");
+  });
+
+  it("returns null instead of rolling when the requested encounter can't be met here", async () => {
+    const game = newGame();
+    expect(await game.triggerEncounter("routing-ghost")).toBeNull();
+    expect(await game.triggerEncounter("lucidia-sentinel")).toBeNull();
+    expect(await game.triggerEncounter("no-such-encounter")).toBeNull();
+    expect(game.getBattle()).toBeNull();
+  });
+});
+
+describe("GameLoop endless zones", () => {
+  function endlessSave(seed: number, depth: number) {
+    const save = newGame().toSave();
+    save.player.zones["vault-terminus"] = { captured: [], guardian_defeated: true };
+    save.player.endless = { seed, depth };
+    return JSON.stringify(save);
+  }
+
+  it("keeps each run's generated zones to itself", () => {
+    const deep = GameLoop.fromSave(endlessSave(1, 3));
+    const shallow = GameLoop.fromSave(endlessSave(99, 1));
+    expect(deep.getZones().map(z => z.id)).toContain("endless-3");
+    expect(shallow.getZones().map(z => z.id)).not.toContain("endless-2");
+    expect(deep.getZones().find(z => z.id === "endless-1")!.guardian)
+      .not.toBe(shallow.getZones().find(z => z.id === "endless-1")!.guardian);
+    expect(contentRegistry.getPacks().map(p => p.id)).not.toContain(ENDLESS_PACK_ID);
+    expect(newGame().getZones().some(z => z.id.startsWith("endless-"))).toBe(false);
+  });
+
+  it("opens the next depth in its own content only", () => {
+    const game = GameLoop.fromSave(endlessSave(1, 1));
+    game.getPlayerState().zones["endless-1"] = { captured: [], guardian_defeated: true };
+    expect(game.openEndlessZone()?.id).toBe("endless-2");
+    expect(contentRegistry.getZone("endless-2")).toBeUndefined();
+  });
+});
+
+describe("GameLoop movement", () => {
+  const zoneEvents = (game: GameLoop) => {
+    const events: string[] = [];
+    game.on(e => { if (e.type === "zone_enter" || e.type === "zone_exit") events.push(`${e.type}:${e.zone.id}`); });
+    return events;
+  };
+
+  it("doesn't re-enter the zone underfoot after entering another one", async () => {
+    const game = newGame();
+    const events = zoneEvents(game);
+    expect(await game.enterZone("gateway-nexus")).toBe(true);
+    expect(game.getPosition()).toMatchObject({ x: 500, y: 0 });
+    expect(game.moveTo(510, 5)).toBe(true);
+    expect(events).toEqual(["zone_enter:gateway-nexus"]);
+    expect(game.getPlayerState().current_zone).toBe("gateway-nexus");
+  });
+
+  it("leaves a player already standing in the zone where they are", async () => {
+    const game = newGame();
+    game.moveTo(30, 40);
+    await game.enterZone("recursion-depths");
+    expect(game.getPosition()).toMatchObject({ x: 30, y: 40 });
+  });
+
+  it("fires exit and enter when walking from one zone's circle into another", () => {
+    const game = newGame();
+    const events = zoneEvents(game);
+    game.moveTo(500, 0);
+    expect(events).toEqual(["zone_exit:recursion-depths", "zone_enter:gateway-nexus"]);
+  });
+});
+
+describe("GameLoop encounter spots", () => {
+  const spotOf = (game: GameLoop, encounter: string) => encounterSpots(game.getCurrentZone()!).find(s => s.encounter === encounter)!;
+
+  it("battles a wild encounter the player walks into", () => {
+    const game = newGame();
+    const spot = spotOf(game, "stack-spirit");
+    expect(game.moveTo(spot.x, spot.y)).toBe(true);
+    expect(game.getBattle()?.enemy.id).toBe("stack-spirit");
+  });
+
+  it("walks past an encounter that can't spawn, like one already captured", () => {
+    const game = newGame();
+    game.getPlayerState().agents_captured.push("stack-spirit");
+    const spot = spotOf(game, "stack-spirit");
+    game.moveTo(spot.x, spot.y);
+    expect(game.getBattle()).toBeNull();
+  });
+
+  it("leaves encounters to the world when encounter triggers are off", () => {
+    const game = new GameLoop("tester", { rng: new SeededRng(1), encounterTriggers: false });
+    const spot = spotOf(game, "stack-spirit");
+    game.moveTo(spot.x, spot.y);
+    expect(game.getBattle()).toBeNull();
+    expect(game.getProximityTriggers().some(t => t.battle)).toBe(false);
+  });
+});
+
+describe("GameLoop dialogue", () => {
+  it("only talks to encounters in the current zone", () => {
+    const game = newGame();
+    expect(game.startDialogue("alice-routing")).toBeNull();
+    expect(console.warn).toHaveBeenCalledWith("ALICE is not in this zone");
+    expect(game.getDialogue()).toBeNull();
+  });
+
+  it("only talks to encounters within talk range", () => {
+    const game = newGame();
+    game.moveTo(0, TALK_RADIUS + 100);
+    expect(game.startDialogue("lucidia-riddle")).toBeNull();
+    expect(console.warn).toHaveBeenCalledWith("LUCIDIA is too far away to talk to");
+    game.moveTo(0, TALK_RADIUS - 10);
+    expect(game.startDialogue("lucidia-riddle")?.node).toBe("greet");
+  });
+
+  it("applies the effects of the choices taken, once", () => {
+    const game = newGame();
+    const ended: string[] = [];
+    game.on(e => { if (e.type === "dialogue_end") ended.push(e.conversation); });
+    game.startDialogue("lucidia-riddle");
+    expect(game.chooseDialogue(0)?.node).toBe("bottom");
+    expect(game.chooseDialogue(1)).toMatchObject({ node: "gift", choices: [] });
+    expect(countItem(game.getPlayerState().inventory, "patch-kit")).toBe(2);
+    expect(game.hasFlag("lucidia-gift")).toBe(true);
+    expect(game.getDialogue()).toBeNull();
+    expect(ended).toEqual(["lucidia-riddle"]);
+
+    game.startDialogue("lucidia-riddle");
+    expect(game.chooseDialogue(0)?.choices.map(c => c.index)).toEqual([0]);
+  });
+
+  it("ends the conversation in a battle its choices start", () => {
+    const game = newGame();
+    game.getPlayerState().agents_captured.push("paradox-daemon", "stack-spirit");
+    game.startDialogue("lucidia-riddle");
+    game.chooseDialogue(1);
+    expect(game.chooseDialogue(0)).toMatchObject({ node: "duel" });
+    expect(game.getBattle()?.enemy.id).toBe("lucidia-sentinel");
+    expect(game.getDialogue()).toBeNull();
+  });
+});
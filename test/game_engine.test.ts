@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { ENCOUNTER_RADIUS, WORLD_ZONES, WorldEngine, encounterSpots, worldZones, zoneAt } from "../src/game_engine.js";
+import type { CollisionEvent } from "../src/collision.js";
+import { contentRegistry } from "../src/levels/index.js";
+import type { Zone } from "../src/levels/index.js";
+
+const mapZone: Zone = {
+  id: "map-test", name: "Map Test", guardian: "MAPTEST", color: "#123456", description: "A test zone.",
+  reward: "Nothing", rewardItem: "wisdom-shard", requiredLevel: 1, layout: { x: 5000, y: 5000, radius: 100 },
+  encounters: [
+    { id: "map-test-wild", name: "Wild", agentName: "Wild", type: "logic", difficulty: "normal", description: "Wild.", level: 2, moves: ["Paradox Twist"], xpReward: 10 },
+    { id: "map-test-boss", name: "Boss", agentName: "Boss", type: "logic", difficulty: "legendary", description: "Boss.", level: 5, moves: ["Paradox Twist"], xpReward: 50 },
+  ],
+};
+
+afterEach(() => { contentRegistry.unload("map-test"); });
+
+describe("world map", () => {
+  it("keeps the deprecated WORLD_ZONES in step with the shared registry", () => {
+    expect(WORLD_ZONES).toBe(worldZones());
+    contentRegistry.load({ id: "map-test", zones: [mapZone] });
+    expect(WORLD_ZONES).toBe(worldZones());
+    expect(WORLD_ZONES.map(z => z.id)).toContain("map-test");
+    expect(zoneAt(5000, 5000)?.id).toBe("map-test");
+    contentRegistry.unload("map-test");
+    expect(WORLD_ZONES.map(z => z.id)).not.toContain("map-test");
+  });
+});
+
+describe("WorldEngine encounters", () => {
+  it("spawns a trigger collider on every encounter spot, guardians aside", () => {
+    const engine = new WorldEngine();
+    const zone = contentRegistry.getZone("recursion-depths")!;
+    const spots = encounterSpots(zone);
+    expect(spots.map(s => s.encounter)).toEqual(["paradox-daemon", "stack-spirit"]);
+    for (const spot of spots) {
+      const id = `encounter-${spot.encounter}`;
+      expect(engine.world.kindOf(id)).toBe("encounter");
+      expect(engine.world.get(id, "agent")?.agentId).toBe(spot.encounter);
+      expect(engine.world.get(id, "collider")).toEqual({ shape: { kind: "sphere", radius: ENCOUNTER_RADIUS }, trigger: true });
+    }
+  });
+
+  it("reports a player touching an encounter and leaving it", () => {
+    const engine = new WorldEngine();
+    const spot = encounterSpots(contentRegistry.getZone("recursion-depths")!)[1];
+    const player = engine.spawn("player", {
+      transform: { x: 0, y: 0, z: 0, rotation: 0 },
+      collider: { shape: { kind: "sphere", radius: 10 }, trigger: true },
+    });
+    const events: CollisionEvent["type"][] = [];
+    engine.onCollision(e => { if ([e.a, e.b].includes(player)) events.push(e.type); });
+    engine.update();
+    Object.assign(engine.world.get(player, "transform")!, { x: spot.x + 20, y: spot.y });
+    engine.update();
+    Object.assign(engine.world.get(player, "transform")!, { x: 0, y: 0 });
+    engine.update();
+    expect(events).toEqual(["enter", "exit"]);
+  });
+});
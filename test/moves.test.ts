@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { assertKnownMoves, effectiveness, getMove } from "../src/moves.js";
+import { getItem } from "../src/items.js";
+import { getGuardian } from "../src/guardians.js";
+import type { Zone } from "../src/levels/index.js";
+
+describe("catalogue lookups", () => {
+  it("finds catalogued moves and items", () => {
+    expect(getMove("Paradox Twist")?.element).toBe("logic");
+    expect(getItem("wisdom-shard")?.id).toBe("wisdom-shard");
+  });
+
+  it("doesn't take inherited object keys for moves, items or guardians", () => {
+    for (const key of ["constructor", "toString", "__proto__", "hasOwnProperty"]) {
+      expect(getMove(key)).toBeUndefined();
+      expect(getItem(key)).toBeUndefined();
+      expect(() => assertKnownMoves([key], "test")).toThrow(`Unknown move "${key}" on test`);
+    }
+    const zone = { id: "constructor", encounters: [] } as unknown as Zone;
+    expect(getGuardian(zone)).toBeUndefined();
+  });
+
+  it("rates each type strong against the next in the cycle", () => {
+    expect(effectiveness("logic", "memory")).toBe(2);
+    expect(effectiveness("memory", "logic")).toBe(0.5);
+  });
+});
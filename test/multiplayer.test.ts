@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WorldClient } from "../src/multiplayer/client.js";
+import { PLAYER_SPEED } from "../src/multiplayer/protocol.js";
+import type { ServerMessage } from "../src/multiplayer/protocol.js";
+import { MAX_PENDING_WALKS, WorldServer } from "../src/multiplayer/server.js";
+import { localConnectionPair } from "../src/multiplayer/transport.js";
+import { STARTER_ENCOUNTER } from "../src/game.js";
+import { encounterSpots } from "../src/game_engine.js";
+
+beforeEach(() => { vi.spyOn(console, "warn").mockImplementation(() => {}); });
+afterEach(() => { vi.restoreAllMocks(); });
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+async function twoPlayers() {
+  const server = new WorldServer({ seed: 1 });
+  const a = new WorldClient(server.connectLocal());
+  const b = new WorldClient(server.connectLocal());
+  await a.join("ada");
+  await b.join("bo");
+  const encounter = server.getGame("p1")!.getCurrentZone()!.encounters.find(e => e.id !== STARTER_ENCOUNTER)!;
+  return { server, a, b, encounter };
+}
+
+describe("WorldServer encounter locks", () => {
+  it("lets only one of two players battle an encounter started at once", async () => {
+    const { server, a, b, encounter } = await twoPlayers();
+    const input = { kind: "trigger_encounter", encounter: encounter.id } as const;
+    const results = await Promise.all([a.act(input), b.act(input)]);
+    expect(results).toEqual([encounter.id, null]);
+    expect(server.lockHolder(encounter.id)).toBe("p1");
+    expect(server.getGame("p2")!.getBattle()).toBeNull();
+  });
+
+  it("releases the lock when the battle is resolved or the player leaves", async () => {
+    const { server, a, b, encounter } = await twoPlayers();
+    await a.act({ kind: "trigger_encounter", encounter: encounter.id });
+    const game = server.getGame("p1")!;
+    while (game.getBattle()) await a.act({ kind: "battle_action", action: { kind: "flee" } }).catch(() => {});
+    expect(server.lockHolder(encounter.id)).toBeUndefined();
+
+    expect(await b.act({ kind: "trigger_encounter", encounter: encounter.id })).toBe(encounter.id);
+    b.leave();
+    await vi.waitFor(() => expect(server.getPlayers()).toHaveLength(1));
+    expect(server.lockHolder(encounter.id)).toBeUndefined();
+  });
+
+  it("refuses capture and zone changes sent by clients", async () => {
+    const { a, encounter } = await twoPlayers();
+    await expect(a.act({ kind: "capture", encounter: encounter.id })).rejects.toThrow(/not allowed/);
+    await expect(a.act({ kind: "enter_zone", zone: "vault-terminus" })).rejects.toThrow(/not allowed/);
+  });
+});
+
+describe("WorldServer encounters", () => {
+  it("battles an encounter a player walks into", async () => {
+    const { server, a } = await twoPlayers();
+    const game = server.getGame("p1")!;
+    const spot = encounterSpots(game.getCurrentZone()!).find(s => s.encounter === "stack-spirit")!;
+    const { x, y } = game.getPosition();
+    for (let i = 0; i < 100 && !game.getBattle(); i++) {
+      a.walk(spot.x - x, spot.y - y);
+      await settle();
+      server.step();
+      await settle();
+    }
+    expect(game.getBattle()?.enemy.id).toBe("stack-spirit");
+    expect(server.lockHolder("stack-spirit")).toBe("p1");
+  });
+});
+
+describe("WorldServer walks", () => {
+  it("moves a player one walk step per tick however many walks they send", async () => {
+    const { server, a } = await twoPlayers();
+    const game = server.getGame("p1")!;
+    const start = game.getPosition();
+    const rejected: string[] = [];
+    a.on(m => { if (m.type === "rejected") rejected.push(m.reason); });
+    for (let i = 0; i < 10; i++) a.walk(0, 1);
+    await settle();
+    expect(game.getPosition()).toEqual(start);
+
+    for (let tick = 1; tick <= 5; tick++) {
+      server.step();
+      await settle();
+      const steps = Math.min(tick, MAX_PENDING_WALKS);
+      expect(game.getPosition().y).toBeCloseTo(start.y + steps * PLAYER_SPEED * server.clock.step);
+    }
+    expect(rejected).toEqual(Array(10 - MAX_PENDING_WALKS).fill(`More than ${MAX_PENDING_WALKS} walks waiting`));
+    await vi.waitFor(() => expect(a.getPosition()).toEqual({ x: game.getPosition().x, y: game.getPosition().y }));
+  });
+
+  it("keeps a player's later inputs behind the walk waiting for a tick", async () => {
+    const { server, a } = await twoPlayers();
+    const order: string[] = [];
+    a.walk(1, 0);
+    const acted = a.act({ kind: "heal_party" }).then(() => order.push("heal"));
+    await settle();
+    order.push("step");
+    server.step();
+    await acted;
+    expect(order).toEqual(["step", "heal"]);
+  });
+});
+
+describe("WorldClient", () => {
+  it("reports malformed server messages to its listeners", async () => {
+    const [conn, server] = localConnectionPair();
+    const client = new WorldClient(conn);
+    const messages: ServerMessage[] = [];
+    client.on(message => messages.push(message));
+    server.send("not json");
+    await vi.waitFor(() => expect(messages).toEqual([{ type: "error", message: "Malformed message: not JSON" }]));
+  });
+});
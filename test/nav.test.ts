@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { ContentRegistry } from "../src/content.js";
+import { NavGraph } from "../src/nav.js";
+import type { Zone } from "../src/levels/index.js";
+
+function zone(id: string, x: number, y: number, extra: Partial<Zone> = {}): Zone {
+  return {
+    id, name: id, guardian: id.toUpperCase(), color: "#123456", description: "A test zone.",
+    reward: "Nothing", rewardItem: "wisdom-shard", requiredLevel: 1, layout: { x, y, radius: 100 },
+    encounters: [
+      { id: `${id}-wild`, name: "Wild", agentName: "Wild", type: "logic", difficulty: "normal", description: "Wild.", level: 2, moves: ["Paradox Twist"], xpReward: 10 },
+      { id: `${id}-boss`, name: "Boss", agentName: "Boss", type: "logic", difficulty: "legendary", description: "Boss.", level: 5, moves: ["Paradox Twist"], xpReward: 50 },
+    ],
+    ...extra,
+  };
+}
+
+// Four zones on the corners of a square, each touching its two neighbours but not the one opposite.
+const square = () => new ContentRegistry([{
+  id: "square",
+  zones: [zone("a", 0, 0), zone("b", 300, 0), zone("c", 300, 300), zone("d", 0, 300)],
+}]);
+
+describe("NavGraph", () => {
+  it("links zones whose circles come within the gap", () => {
+    const graph = new NavGraph(square());
+    expect(graph.neighbours("a").sort()).toEqual(["b", "d"]);
+    expect(graph.links()).toHaveLength(4);
+  });
+
+  it("finds the shortest route round blocked zones", () => {
+    const graph = new NavGraph(square());
+    expect(graph.findPath("a", "c")).toMatchObject({ zones: ["a", "b", "c"], length: 600 });
+    expect(graph.findPath("a", "c", { blocked: ["b"] })).toEqual({
+      zones: ["a", "d", "c"],
+      waypoints: [{ x: 0, y: 300 }, { x: 300, y: 300 }],
+      length: 600,
+    });
+    expect(graph.findPath("a", "c", { blocked: ["b", "d"] })).toBeNull();
+    expect(graph.findPath("a", "c", { blocked: ["c"] })).toBeNull();
+  });
+
+  it("lets the player leave a blocked zone they stand in", () => {
+    expect(new NavGraph(square()).findPath("a", "b", { blocked: ["a"] })?.zones).toEqual(["a", "b"]);
+  });
+
+  it("treats a zone gate as a road between distant zones", () => {
+    const content = square();
+    content.load({ id: "far", zones: [zone("far", 5000, 5000, { requiresCleared: ["c"] })] });
+    expect(new NavGraph(content).findPath("a", "far")?.zones).toEqual(["a", "b", "c", "far"]);
+  });
+
+  it("caches routes until the content changes", () => {
+    const content = square();
+    const graph = new NavGraph(content);
+    const route = graph.findPath("a", "c");
+    expect(graph.findPath("a", "c")).toBe(route);
+    content.load({ id: "shortcut", zones: [zone("e", 150, 150, { layout: { x: 150, y: 150, radius: 20 } })] });
+    expect(graph.findPath("a", "c")?.zones).toEqual(["a", "e", "c"]);
+  });
+
+  it("doesn't walk a link through a blocked zone lying between its ends", () => {
+    // a and b are joined by a gate road straight through m; c is the way round.
+    const content = new ContentRegistry([{
+      id: "detour",
+      zones: [
+        zone("a", 0, 0), zone("b", 600, 0, { requiresCleared: ["a"] }),
+        zone("m", 300, 0, { layout: { x: 300, y: 0, radius: 50 } }),
+        zone("c", 300, 250, { layout: { x: 300, y: 250, radius: 200 } }),
+      ],
+    }]);
+    const graph = new NavGraph(content);
+    expect(graph.findPath("a", "b")?.zones).toEqual(["a", "b"]);
+    expect(graph.findPath("a", "b", { blocked: ["m"] })?.zones).toEqual(["a", "c", "b"]);
+    expect(graph.findPath("a", "b", { blocked: ["m", "c"] })).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { MAX_AGENT_LEVEL, PLAYER_XP_TABLE, agentXpToNext, awardAgentXp, getGrowth, playerXpToNext } from "../src/progression.js";
+import { createCapturedAgent } from "../src/party.js";
+import { maxHpForLevel } from "../src/battle.js";
+import { ContentRegistry } from "../src/content.js";
+import { contentRegistry } from "../src/levels/index.js";
+import type { Zone } from "../src/levels/index.js";
+
+const agent = (species: string) => createCapturedAgent(contentRegistry.findEncounter(species)!);
+
+describe("XP thresholds", () => {
+  it("charts 100 more player XP for each level, with none past the cap", () => {
+    expect(playerXpToNext(1)).toBe(100);
+    expect(playerXpToNext(5)).toBe(500);
+    expect(playerXpToNext(PLAYER_XP_TABLE.length + 1)).toBe(Infinity);
+  });
+
+  it("scales agent XP by growth curve and stops at the level cap", () => {
+    expect([agentXpToNext("fast", 5), agentXpToNext("medium", 5), agentXpToNext("slow", 5)]).toEqual([80, 100, 125]);
+    expect(agentXpToNext("fast", MAX_AGENT_LEVEL)).toBe(Infinity);
+  });
+});
+
+describe("awardAgentXp", () => {
+  it("keeps XP short of the next level and levels up exactly at it", () => {
+    const daemon = agent("paradox-daemon");
+    expect(awardAgentXp(daemon, 35)).toEqual([]);
+    expect(awardAgentXp(daemon, 1)).toEqual([{ kind: "level_up", level: 4 }]);
+    expect(daemon).toMatchObject({ level: 4, xp: 0 });
+  });
+
+  it("grows max HP with each level and heals by the same amount", () => {
+    const daemon = agent("paradox-daemon");
+    daemon.hp = 10;
+    awardAgentXp(daemon, 36 + 64);
+    expect(daemon).toMatchObject({ level: 5, max_hp: maxHpForLevel(5), hp: 10 + maxHpForLevel(5) - maxHpForLevel(3) });
+  });
+
+  it("learns learnset moves on the level they are listed at", () => {
+    const daemon = agent("paradox-daemon");
+    const steps = awardAgentXp(daemon, 36 + 64 + 100);
+    expect(steps.at(-1)).toEqual({ kind: "move_learned", move: "Recurse", forgotten: undefined });
+    expect(daemon.moves).toContain("Recurse");
+  });
+
+  it("evolves at the evolution level, taking the new species' first move", () => {
+    const daemon = agent("paradox-daemon");
+    const xp = [3, 4, 5, 6, 7, 8, 9, 10, 11].reduce((sum, level) => sum + agentXpToNext("medium", level), 0);
+    const steps = awardAgentXp(daemon, xp);
+    const spirit = contentRegistry.findEncounter("stack-spirit")!;
+    expect(steps).toContainEqual({ kind: "evolved", from: "paradox-daemon", into: "stack-spirit" });
+    expect(daemon).toMatchObject({ level: 12, species: "stack-spirit", name: spirit.agentName, type: spirit.type });
+    expect(daemon.moves).toContain(spirit.moves[0]);
+    expect(daemon.moves.length).toBeLessThanOrEqual(4);
+  });
+});
+
+describe("getGrowth", () => {
+  it("reads species from the registry it is given", () => {
+    const hard = { id: "forked-hard", name: "Hard", agentName: "Hard", type: "logic" as const, difficulty: "hard" as const, description: "Hard.", level: 2, moves: ["Paradox Twist"], xpReward: 10 };
+    const zone: Zone = {
+      id: "forked", name: "Forked", guardian: "FORKED", color: "#123456", description: "A test zone.",
+      reward: "Nothing", rewardItem: "wisdom-shard", requiredLevel: 1,
+      encounters: [hard, { ...hard, id: "forked-boss", difficulty: "legendary" }],
+    };
+    const content = new ContentRegistry([{ id: "forked", zones: [zone] }]);
+    expect(getGrowth("forked-hard").curve).toBe("medium");
+    expect(getGrowth("forked-hard", content).curve).toBe("slow");
+    expect(getGrowth("constructor").learnset).toEqual([]);
+  });
+});
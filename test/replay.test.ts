@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SessionRecorder, SessionReplayer } from "../src/replay.js";
+import type { GameInput, SessionLog } from "../src/replay.js";
+
+beforeEach(() => { vi.spyOn(console, "warn").mockImplementation(() => {}); });
+afterEach(() => { vi.restoreAllMocks(); });
+
+const INPUTS: GameInput[] = [
+  { kind: "tick", count: 5 },
+  { kind: "trigger_encounter", encounter: "stack-spirit" },
+  { kind: "battle_action", action: { kind: "capture" } },
+  { kind: "battle_action", action: { kind: "capture" } },
+  { kind: "heal_party" },
+];
+
+async function record(inputs = INPUTS): Promise<SessionLog> {
+  const recorder = new SessionRecorder("tester", 42, { build: "rec" });
+  for (const input of inputs) await recorder.apply(input).catch(() => {});
+  return recorder.stop();
+}
+
+describe("SessionRecorder", () => {
+  it("records each input with its result, events and state checksum", async () => {
+    const log = await record();
+    expect(log).toMatchObject({ format: 1, build: "rec", seed: 42, player_name: "tester" });
+    expect(log.steps.map(s => s.input)).toEqual(INPUTS);
+    expect(log.steps[1].result).toBe("stack-spirit");
+    expect(log.steps[1].events.map(e => e.type)).toEqual(["encounter", "battle_start"]);
+    expect(log.steps.every(s => /^[0-9a-f]{8}$/.test(s.checksum))).toBe(true);
+  });
+
+  it("records errors and rethrows them", async () => {
+    const recorder = new SessionRecorder("tester", 1);
+    await expect(recorder.apply({ kind: "battle_action", action: { kind: "rest" } })).rejects.toThrow(/No battle/);
+    expect(recorder.getLog().steps[0].error).toBe("No battle in progress");
+  });
+});
+
+describe("SessionReplayer", () => {
+  it("replays a clean log without divergence", async () => {
+    const replayer = new SessionReplayer(await record(), { build: "replay" });
+    expect(await replayer.verify()).toBeNull();
+    expect(replayer.getCursor()).toBe(INPUTS.length);
+  });
+
+  it("scrubs back and forth through the rebuilt states", async () => {
+    const replayer = new SessionReplayer(await record());
+    const start = replayer.getState();
+    const afterCapture = await replayer.seek(3);
+    expect(replayer.peek()?.input).toEqual(INPUTS[3]);
+    expect(replayer.stepBack()).toBe(true);
+    expect(replayer.getCursor()).toBe(2);
+    expect(await replayer.seek(0)).toEqual(start);
+    expect(await replayer.seek(3)).toEqual(afterCapture);
+    expect(await replayer.seek(99)).toEqual(replayer.getState());
+    expect(replayer.getCursor()).toBe(INPUTS.length);
+    expect(await replayer.stepForward()).toBe(false);
+  });
+
+  it("reports the first step where a replay diverges from the recording", async () => {
+    const log = await record();
+    log.steps[1].result = "paradox-daemon";
+    log.steps[4].checksum = "00000000";
+    const divergence = await new SessionReplayer(log, { build: "replay" }).verify();
+    expect(divergence).toMatchObject({
+      step: 1, reason: "result", expected: "paradox-daemon", actual: "stack-spirit",
+      recorded_build: "rec", replay_build: "replay",
+    });
+  });
+
+  it("reports a state that no longer matches", async () => {
+    const log = await record();
+    log.steps[4].checksum = "00000000";
+    expect(await new SessionReplayer(log).verify()).toMatchObject({ step: 4, reason: "state", expected: "00000000" });
+  });
+
+  it("replays travel driven by a clock, and the battles it walks into", async () => {
+    const recorder = new SessionRecorder("tester", 3);
+    await recorder.apply({ kind: "travel", zone: "gateway-nexus" });
+    recorder.game.advance(10);  // a shared clock stepping the game between inputs
+    await recorder.apply({ kind: "heal_party" });
+    const log = recorder.stop();
+    const external = log.steps.find(s => s.input === null)!;
+    expect(external.events.map(e => e.type)).toContain("battle_start");
+    expect(await new SessionReplayer(log).verify()).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { GameLoop } from "../src/game.js";
+import { MemorySaveStorage, SAVE_VERSION, parseSave, readSave, writeSave } from "../src/save.js";
+import { contentRegistry } from "../src/levels/index.js";
+
+const agent = (id: string, name: string, level: number) => ({
+  id, name, type: "logic", level, moves: ["Paradox Twist"], hp: level * 15, max_hp: level * 15,
+});
+
+const V1_SAVE = {
+  version: 1,
+  saved_at: "2025-01-01T00:00:00.000Z",
+  player_name: "old-timer",
+  player: {
+    level: 9,
+    xp: 40,
+    agents_captured: ["paradox-daemon", "stack-spirit", "lucidia-sentinel", "routing-ghost"],
+    current_zone: "gateway-nexus",
+    position: { x: 500, y: 0, z: 0 },
+    party: [agent("paradox-daemon", "Paradox Daemon", 6), agent("stack-spirit", "Stack Spirit", 8)],
+  },
+};
+
+describe("save migrations", () => {
+  it("upgrades a version 1 save to the current version", () => {
+    const { version, player } = parseSave(JSON.stringify(V1_SAVE));
+    expect(version).toBe(SAVE_VERSION);
+    // v2: a zone whose encounters were all captured counts as completed and grants its reward.
+    expect(player.inventory).toEqual([{ item: "wisdom-shard", quantity: 1 }]);
+    expect(player.stats.reason).toBeGreaterThan(0);
+    // v3: captures outside the party are recovered into the box.
+    expect(player.box.map(a => a.id).sort()).toEqual(["lucidia-sentinel", "routing-ghost"]);
+    // v4: agents gain XP and a species.
+    expect(player.party.map(a => [a.xp, a.species])).toEqual([[0, "paradox-daemon"], [0, "stack-spirit"]]);
+    // v5: per-zone progress.
+    expect(player.zones["recursion-depths"]).toEqual({
+      captured: ["paradox-daemon", "stack-spirit", "lucidia-sentinel"], guardian_defeated: true,
+    });
+    expect(player.zones["gateway-nexus"]).toEqual({ captured: ["routing-ghost"], guardian_defeated: false });
+    expect(player.chapters_unlocked).toEqual([]);
+    // v6 to v9: achievements, dialogue flags and endless progress start empty.
+    expect(player.achievements).toEqual({ unlocked: {}, counters: {}, seen: {} });
+    expect(player.dialogue_flags).toEqual([]);
+    expect(player.endless).toBeNull();
+  });
+
+  it("drops raw counts behind achievements that now count distinct zones", () => {
+    const save = JSON.parse(JSON.stringify(new GameLoop("counter").toSave()));
+    save.version = 8;
+    save.player.achievements = { unlocked: {}, counters: { explorer: 5, collector: 3 } };
+    expect(parseSave(save).player.achievements).toEqual({ unlocked: {}, counters: { collector: 3 }, seen: {} });
+  });
+
+  it("refuses saves from a newer version", () => {
+    expect(() => parseSave({ ...V1_SAVE, version: SAVE_VERSION + 1 })).toThrow(/newer than supported/);
+  });
+});
+
+describe("save storage", () => {
+  it("reads back a save made inside an endless zone", async () => {
+    const cleared = new GameLoop("delver").toSave();
+    cleared.player.level = 30;
+    cleared.player.zones["vault-terminus"] = { captured: [], guardian_defeated: true };
+    const game = GameLoop.fromSave(cleared);
+    expect(await game.enterZone("endless-1")).toBe(true);
+
+    const storage = new MemorySaveStorage();
+    await writeSave(storage, "deep", game.toSave());
+    const save = (await readSave(storage, "deep"))!;
+    expect(save.player).toMatchObject({ current_zone: "endless-1", endless: { depth: 1 } });
+    expect(GameLoop.fromSave(save).getCurrentZone()?.id).toBe("endless-1");
+    expect(contentRegistry.getZone("endless-1")).toBeUndefined();
+  });
+});
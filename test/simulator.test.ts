@@ -0,0 +1,28 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { reportToCsv, runSimulation, rusherPolicy } from "../src/simulator.js";
+import { ZONES } from "../src/levels/index.js";
+
+beforeEach(() => { vi.spyOn(console, "warn").mockImplementation(() => {}); });
+afterEach(() => { vi.restoreAllMocks(); });
+
+const options = { sessions: 1, seed: 7, maxEncounters: 2000, policy: rusherPolicy };
+
+describe("runSimulation", () => {
+  it("reports a seeded run the same way every time", async () => {
+    const report = await runSimulation(options);
+    expect(await runSimulation(options)).toEqual(report);
+
+    expect(report).toMatchObject({ policy: "rusher", sessions: 1, seed: 7, finished: 1, unreachable: [], stalls: [] });
+    expect(report.zones.map(z => z.zone)).toEqual(ZONES.map(z => z.id));
+    expect(report.zones.every(z => z.entered === 1 && z.cleared === 1)).toBe(true);
+    expect(report.levels[0]).toEqual({ level: 1, reached: 1, mean_encounters: 0, median_encounters: 0 });
+    expect(report.xp_by_zone.reduce((sum, z) => sum + z.share, 0)).toBeCloseTo(1, 1);
+    for (const row of report.captures) expect(row.successes).toBeLessThanOrEqual(row.attempts);
+  }, 60_000);
+
+  it("writes one CSV per report table", async () => {
+    const csv = reportToCsv(await runSimulation(options));
+    expect(Object.keys(csv)).toEqual(["levels.csv", "captures.csv", "xp_by_zone.csv", "zones.csv"]);
+    expect(csv["zones.csv"].split("\n")[0]).toBe("zone,entered,mean_encounters_to_enter,cleared,stalled");
+  }, 60_000);
+});
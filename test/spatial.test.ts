@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { ProximityTriggers, SpatialGrid } from "../src/spatial.js";
+
+describe("SpatialGrid", () => {
+  it("finds overlapping circles nearest first, touching included", () => {
+    const grid = new SpatialGrid<string>(10);
+    grid.set("near", { x: 3, y: 0, radius: 1 }, "near");
+    grid.set("far", { x: 30, y: 0, radius: 5 }, "far");
+    grid.set("edge", { x: 0, y: 12, radius: 2 }, "edge");
+    expect(grid.queryCircle(0, 0, 10).map(h => h.id)).toEqual(["near", "edge"]);
+    expect(grid.queryCircle(0, 0, 25).map(h => h.id)).toEqual(["near", "edge", "far"]);
+    expect(grid.queryPoint(3.5, 0)).toEqual([{ id: "near", data: "near", distance: 0.5 }]);
+  });
+
+  it("files a large circle under every cell it covers and moves entries between cells", () => {
+    const grid = new SpatialGrid(10);
+    grid.set("big", { x: 0, y: 0, radius: 45 }, undefined);
+    expect(grid.queryPoint(40, 0).map(h => h.id)).toEqual(["big"]);
+    grid.set("big", { x: 500, y: 500, radius: 1 }, undefined);
+    expect(grid.queryPoint(40, 0)).toEqual([]);
+    expect(grid.queryPoint(500, 500).map(h => h.id)).toEqual(["big"]);
+    expect(grid.size).toBe(1);
+  });
+
+  it("forgets removed and cleared entries", () => {
+    const grid = new SpatialGrid(10);
+    grid.set("a", { x: 0, y: 0, radius: 1 }, undefined);
+    grid.set("b", { x: 1, y: 0, radius: 1 }, undefined);
+    expect(grid.remove("a")).toBe(true);
+    expect(grid.remove("a")).toBe(false);
+    expect(grid.queryPoint(0, 0).map(h => h.id)).toEqual(["b"]);
+    grid.clear();
+    expect(grid.queryPoint(0, 0)).toEqual([]);
+    expect(grid.size).toBe(0);
+  });
+
+  it("rejects a non-positive cell size", () => {
+    expect(() => new SpatialGrid(0)).toThrow(/positive/);
+  });
+});
+
+describe("ProximityTriggers", () => {
+  it("reports each trigger once on entering and once on leaving", () => {
+    const triggers = new ProximityTriggers(50);
+    triggers.add({ id: "t", x: 100, y: 0, radius: 20, encounter: "e" });
+    expect(triggers.update(0, 0)).toEqual({ entered: [], exited: [] });
+    expect(triggers.update(90, 0).entered.map(t => t.id)).toEqual(["t"]);
+    expect(triggers.update(95, 0)).toEqual({ entered: [], exited: [] });
+    expect(triggers.update(200, 0).exited.map(t => t.id)).toEqual(["t"]);
+  });
+
+  it("forgets a removed trigger without reporting an exit", () => {
+    const triggers = new ProximityTriggers();
+    triggers.add({ id: "t", x: 0, y: 0, radius: 10, encounter: "e" });
+    triggers.update(0, 0);
+    triggers.remove("t");
+    expect(triggers.update(100, 100)).toEqual({ entered: [], exited: [] });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { DAY_LENGTH, SpawnTable, dayPhase, levelGapFactor } from "../src/spawns.js";
+import type { SpawnContext } from "../src/spawns.js";
+import type { Zone } from "../src/levels/index.js";
+import type { Rng } from "../src/rng.js";
+
+const encounter = (id: string, difficulty: Zone["encounters"][number]["difficulty"], level = 5) => ({
+  id, name: id, agentName: id, type: "logic" as const, difficulty, description: "Test.", level, moves: ["Paradox Twist"], xpReward: 10,
+});
+
+const zone: Zone = {
+  id: "spawn-test", name: "Spawn Test", guardian: "SPAWN", color: "#123456", description: "A test zone.",
+  reward: "Nothing", rewardItem: "wisdom-shard", requiredLevel: 1,
+  encounters: [encounter("easy", "trivial"), encounter("mid", "normal"), encounter("boss", "legendary")],
+};
+
+const ctx = (extra: Partial<SpawnContext> = {}): SpawnContext => ({ playerLevel: 5, tick: 0, captured: [], lastSpawned: {}, ...extra });
+
+const fixed = (value: number): Rng => ({ next: () => value, int: n => Math.floor(value * n), range: (min, max) => min + value * (max - min), pick: items => items[0] });
+
+describe("SpawnTable odds", () => {
+  it("weights by difficulty, with legendaries rare, and sums to one", () => {
+    const odds = new SpawnTable(zone).odds(ctx());
+    expect(odds.map(o => o.weight)).toEqual([4, 3, 0.1]);
+    expect(odds.reduce((sum, o) => sum + o.probability, 0)).toBeCloseTo(1);
+  });
+
+  it("blocks excluded, captured, cooling-down and out-of-condition encounters", () => {
+    const table = new SpawnTable(zone, [
+      { encounter: "mid", cooldown: 10 },
+      { encounter: "boss", conditions: [{ kind: "min_player_level", level: 20 }] },
+    ]);
+    const odds = table.odds(ctx({ tick: 5, captured: ["easy"], lastSpawned: { mid: 0 } }));
+    expect(odds.map(o => o.blocked)).toEqual(["already captured", "cooling down for 5 ticks", "requires player level 20"]);
+    expect(odds.every(o => o.probability === 0)).toBe(true);
+    expect(table.odds(ctx({ excluded: ["easy"] }))[0].blocked).toBe("excluded");
+  });
+
+  it("keeps repeatable encounters in the pool after capture", () => {
+    const table = new SpawnTable(zone, [{ encounter: "easy", repeatable: true }]);
+    expect(table.odds(ctx({ captured: ["easy"] }))[0].blocked).toBeUndefined();
+  });
+
+  it("only spawns time-of-day encounters in their phases", () => {
+    const table = new SpawnTable(zone, [{ encounter: "mid", conditions: [{ kind: "time_of_day", phases: ["night"] }] }]);
+    expect(dayPhase(0)).toBe("dawn");
+    expect(table.odds(ctx())[1].blocked).toBe("only at night (now dawn)");
+    expect(table.odds(ctx({ tick: DAY_LENGTH * 3 / 4 }))[1].blocked).toBeUndefined();
+  });
+
+  it("fades encounters far above the player faster than those below", () => {
+    expect(levelGapFactor(5, 5)).toBe(1);
+    expect(levelGapFactor(5, 10)).toBeCloseTo(1 / 3.5);
+    expect(levelGapFactor(50, 1)).toBe(0.25);
+  });
+
+  it("rolls across the weights and returns null when nothing can spawn", () => {
+    const table = new SpawnTable(zone);
+    expect(table.roll(ctx(), fixed(0))?.id).toBe("easy");
+    expect(table.roll(ctx(), fixed(0.99))?.id).toBe("boss");
+    expect(table.roll(ctx({ captured: ["easy", "mid", "boss"] }), fixed(0))).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import * as THREE from "three";
+import { arrive, integrate, seek, separation, steer } from "../src/steering.js";
+import type { Steerable, SteeringContext, SteeringProfile } from "../src/steering.js";
+import { SeededRng } from "../src/rng.js";
+
+const agentAt = (x: number, z: number, velocity = new THREE.Vector3()): Steerable => ({
+  position: new THREE.Vector3(x, 0, z),
+  velocity,
+});
+
+const context = (others: Steerable[] = []): SteeringContext => ({
+  others, maxSpeed: 10, bounds: 100, rng: new SeededRng(1), dt: 0.1,
+});
+
+const expectVector = (v: THREE.Vector3, x: number, y: number, z: number) => {
+  expect(v.x).toBeCloseTo(x);
+  expect(v.y).toBeCloseTo(y);
+  expect(v.z).toBeCloseTo(z);
+};
+
+describe("seek", () => {
+  it("steers toward the target at full speed, staying on the ground plane", () => {
+    const agent = agentAt(0, 0, new THREE.Vector3(0, 0, 2));
+    expectVector(seek(new THREE.Vector3(5, 7, 0))(agent, context()), 10, 0, -2);
+  });
+});
+
+describe("arrive", () => {
+  const target = new THREE.Vector3(20, 0, 0);
+
+  it("seeks at full speed outside the slowing radius", () => {
+    expectVector(arrive(target, 10)(agentAt(0, 0), context()), 10, 0, 0);
+  });
+
+  it("slows in proportion to the distance left inside it", () => {
+    expectVector(arrive(target, 10)(agentAt(15, 0), context()), 5, 0, 0);
+  });
+
+  it("brakes to a stop on the target", () => {
+    expectVector(arrive(target, 10)(agentAt(20, 0, new THREE.Vector3(3, 0, 0)), context()), -3, 0, 0);
+  });
+});
+
+describe("separation", () => {
+  it("pushes away from agents within its radius, ignoring those beyond", () => {
+    const agent = agentAt(0, 0);
+    const force = separation(5)(agent, context([agent, agentAt(2, 0), agentAt(0, 50)]));
+    expectVector(force, -10, 0, 0);
+  });
+
+  it("pushes hardest away from the closest agent", () => {
+    const force = separation(5)(agentAt(0, 0), context([agentAt(1, 0), agentAt(0, 4)]));
+    expect(-force.x).toBeGreaterThan(-force.z);
+    expect(force.length()).toBeCloseTo(10);
+  });
+
+  it("doesn't steer with no one near", () => {
+    expectVector(separation(5)(agentAt(0, 0), context([agentAt(10, 0)])), 0, 0, 0);
+  });
+});
+
+describe("speed and force caps", () => {
+  const profile = (maxForce: number): SteeringProfile => ({
+    maxSpeed: 4,
+    maxForce,
+    behaviours: [{ behaviour: seek(new THREE.Vector3(100, 0, 0)), weight: 3 }],
+  });
+
+  it("caps the weighted force at the profile's maximum", () => {
+    const { others, bounds, rng, dt } = context();
+    const force = steer(agentAt(0, 0), profile(5), { others, bounds, rng, dt });
+    expect(force.length()).toBeCloseTo(5);
+    expectVector(force, 5, 0, 0);
+  });
+
+  it("never lets velocity exceed the profile's top speed", () => {
+    const agent = agentAt(0, 0, new THREE.Vector3(3, 0, 0));
+    integrate(agent, new THREE.Vector3(100, 0, 0), profile(5), 0.5);
+    expectVector(agent.velocity, 4, 0, 0);
+    expectVector(agent.position, 2, 0, 0);
+  });
+});
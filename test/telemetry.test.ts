@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TelemetryFeed } from "../src/telemetry/feed.js";
+import type { FeedState } from "../src/telemetry/feed.js";
+import { parseTelemetry } from "../src/telemetry/events.js";
+import type { TelemetryEvent } from "../src/telemetry/events.js";
+import type { Connector, ConnectorHandlers } from "../src/telemetry/sources.js";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+/** A connector the test drives by hand, counting how often it was opened. */
+function manualSource() {
+  const source = { handlers: null as ConnectorHandlers | null, opened: 0, closed: 0 };
+  const connector: Connector = handlers => {
+    source.handlers = handlers;
+    source.opened++;
+    handlers.open();
+    return () => { source.closed++; };
+  };
+  const send = (events: TelemetryEvent[]) => source.handlers!.message(JSON.stringify(events));
+  return { source, connector, send };
+}
+
+function startFeed(options = {}) {
+  const { source, connector, send } = manualSource();
+  const feed = new TelemetryFeed(connector, options);
+  const batches: TelemetryEvent[][] = [];
+  feed.on(batch => batches.push(batch));
+  feed.start();
+  return { feed, source, send, batches };
+}
+
+describe("TelemetryFeed", () => {
+  it("batches a flood into the latest status per agent and summed messages", () => {
+    const { send, batches } = startFeed({ flushMs: 100 });
+    for (let i = 0; i < 1000; i++) {
+      send([
+        { type: "status", agent: "alice", status: i % 2 ? "busy" : "idle" },
+        { type: "message", from: "alice", to: "echo", count: 2 },
+      ]);
+    }
+    expect(batches).toEqual([]);
+    vi.advanceTimersByTime(100);
+    expect(batches).toEqual([[
+      { type: "status", agent: "alice", status: "busy" },
+      { type: "message", from: "alice", to: "echo", count: 2000 },
+    ]]);
+  });
+
+  it("drops and counts new updates beyond maxPending until the next batch", () => {
+    const { feed, send, batches } = startFeed({ maxPending: 2 });
+    send(["a", "b", "c", "d"].map(agent => ({ type: "tasks" as const, agent, count: 1 })));
+    send([{ type: "tasks", agent: "a", count: 5 }]);
+    expect(feed.getDropped()).toBe(2);
+    vi.advanceTimersByTime(100);
+    expect(batches[0]).toEqual([{ type: "tasks", agent: "a", count: 5 }, { type: "tasks", agent: "b", count: 1 }]);
+    send([{ type: "tasks", agent: "c", count: 1 }]);
+    vi.advanceTimersByTime(100);
+    expect(batches[1]).toEqual([{ type: "tasks", agent: "c", count: 1 }]);
+  });
+
+  it("ignores malformed messages", () => {
+    const { source, batches } = startFeed();
+    source.handlers!.message("{nope");
+    source.handlers!.message(JSON.stringify({ type: "tasks", agent: "a", count: -1 }));
+    vi.advanceTimersByTime(100);
+    expect(batches).toEqual([]);
+  });
+
+  it("retries a failing source with doubling delays up to maxRetryMs", () => {
+    let attempts = 0;
+    const feed = new TelemetryFeed(() => { attempts++; throw new Error("down"); }, { retryMs: 100, maxRetryMs: 300 });
+    feed.start();
+    for (const delay of [100, 200, 300, 300]) {
+      const before = attempts;
+      vi.advanceTimersByTime(delay - 1);
+      expect(attempts).toBe(before);
+      vi.advanceTimersByTime(1);
+      expect(attempts).toBe(before + 1);
+    }
+    feed.stop();
+  });
+
+  it("starts the retry delay over once a stream opens", () => {
+    const { feed, source } = startFeed({ retryMs: 100, maxRetryMs: 300 });
+    const states: FeedState[] = [];
+    feed.onState(state => states.push(state));
+    source.handlers!.closed();
+    expect(states).toEqual(["reconnecting"]);
+    vi.advanceTimersByTime(100);
+    expect(source.opened).toBe(2);
+    source.handlers!.closed();
+    vi.advanceTimersByTime(99);
+    expect(source.opened).toBe(2);
+    vi.advanceTimersByTime(1);
+    expect(source.opened).toBe(3);
+  });
+
+  it("ignores callbacks from a stream it has stopped", () => {
+    const { feed, source, batches } = startFeed();
+    const stale = source.handlers!;
+    feed.stop();
+    expect(source.closed).toBe(1);
+    stale.message(JSON.stringify({ type: "tasks", agent: "a", count: 1 }));
+    stale.closed();
+    vi.advanceTimersByTime(1000);
+    expect(batches).toEqual([]);
+    expect(feed.getState()).toBe("idle");
+  });
+});
+
+describe("parseTelemetry", () => {
+  it("normalises agent ids and defaults message counts to one", () => {
+    expect(parseTelemetry(JSON.stringify({ type: "message", from: "Alice", to: "ECHO" }))).toEqual([
+      { type: "message", from: "alice", to: "echo", count: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { WorldEngine } from "../src/game_engine.js";
+import { applyDelta, decodeDelta, decodeSnapshot, diffSnapshots, encodeDelta, encodeSnapshot } from "../src/world-snapshot.js";
+
+function runningEngine(ticks: number): WorldEngine {
+  const engine = new WorldEngine();
+  engine.spawn("player", {
+    transform: { x: 1.5, y: -2.25, z: 0, rotation: 0 },
+    velocity: { x: 30, y: -12.5, z: 0 },
+    agent: { agentId: "p1", name: "Ada é☃" },
+  }, "player-p1");
+  for (let i = 0; i < ticks; i++) engine.update(1 / 20);
+  return engine;
+}
+
+describe("world snapshots", () => {
+  it("round-trips a snapshot through the binary encoding", () => {
+    const snapshot = runningEngine(5).serialize();
+    expect(decodeSnapshot(encodeSnapshot(snapshot))).toEqual(snapshot);
+  });
+
+  it("round-trips a delta and rebuilds the later snapshot from it", () => {
+    const engine = runningEngine(3);
+    const before = engine.serialize();
+    engine.despawn("player-p1");
+    engine.spawn("player", { transform: { x: 7, y: 8, z: 0, rotation: 1 } }, "player-p2");
+    for (let i = 0; i < 4; i++) engine.update(1 / 20);
+    const after = engine.serialize();
+
+    const delta = diffSnapshots(before, after);
+    const decoded = decodeDelta(encodeDelta(delta));
+    expect(decoded).toEqual(delta);
+    expect(applyDelta(before, decoded)).toEqual(after);
+  });
+
+  it("restores an engine to the same state", () => {
+    const snapshot = runningEngine(4).serialize();
+    const copy = new WorldEngine();
+    copy.restore(decodeSnapshot(encodeSnapshot(snapshot)));
+    expect(copy.serialize()).toEqual(snapshot);
+  });
+
+  it("refuses a delta where a snapshot is expected, and trailing bytes", () => {
+    const engine = runningEngine(1);
+    const snapshot = engine.serialize();
+    engine.update(1 / 20);
+    const delta = encodeDelta(diffSnapshots(snapshot, engine.serialize()));
+    expect(() => decodeSnapshot(delta)).toThrow(/Expected a snapshot, got a delta/);
+    const bytes = encodeSnapshot(snapshot);
+    const padded = new Uint8Array(bytes.length + 1);
+    padded.set(bytes);
+    expect(() => decodeSnapshot(padded)).toThrow(/Trailing bytes/);
+  });
+});